@@ -4,14 +4,21 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { z } from 'zod';
 import { loadConfig } from './utils/config';
 import { getDefaultSpaceKey } from './utils/config';
-import { ConfluenceClient } from './services/confluence-client';
-import { MarkdownConverter } from './services/markdown-converter';
-import { DiagramProcessor } from './services/diagram-processor';
+import { ConfluenceClient, TitleCollisionError, VersionConflictError } from './services/confluence-client';
+import { PagePublisher, TitleCollision } from './services/page-publisher';
+import { PageSync } from './services/page-sync';
+import { DirectoryPublisher } from './services/directory-publisher';
+import { TreeExporter } from './services/tree-exporter';
+import { PageLinker } from './services/page-linker';
+import { StorageConverter } from './services/storage-converter';
 import { MarkdownPageCache } from './utils/cache';
-import { ProjectConfigManager } from './utils/project-config';
+import { ProjectConfig, ProjectConfigManager, TITLE_COLLISION_POLICIES, TitleCollisionPolicy } from './utils/project-config';
+import { buildCql } from './utils/cql';
+import { resolveProjectPath } from './utils/paths';
+import { AUTH_TYPES, AuthType, ConfluenceConnection, hasCredentials, missingCredentials } from './utils/auth';
+import { checkReferenceTarget, resolveSecret, secretStorage } from './utils/secrets';
 import crypto from 'crypto';
-import axios from 'axios';
-import FormData from 'form-data';
+import fs from 'fs/promises';
 
 // Security configuration
 const MCP_API_KEY = process.env.MCP_API_KEY;
@@ -92,8 +99,104 @@ function generateSecureSessionId(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
-// Create an MCP server instance with Confluence tools
-const getServer = () => {
+const PROFILE_DESCRIPTION = 'Optional: Named Confluence profile from the project config (uses the default profile if not provided)';
+
+const TITLE_COLLISION_DESCRIPTION = 'Optional: What to do when a new page title is already taken in the space: fail (default, points at the existing page), update (update the existing page instead), prefix-parent or suffix-parent (add the parent page title), prefix-folder or suffix-folder (add the folder name of markdownPath)';
+
+/**
+ * Describe how a title clash on create was resolved, for the tool message.
+ */
+function describeTitleCollision(collision: TitleCollision): string {
+  if (!collision.requestedTitle) {
+    return ` The title was taken by page ${collision.existingPageId}, which was updated instead (policy 'update').`;
+  }
+  return collision.updatedPageId
+    ? ` The title '${collision.requestedTitle}' was taken by page ${collision.existingPageId}, so policy '${collision.policy}' renamed it to the title of page ${collision.updatedPageId}, which was updated.`
+    : ` The title '${collision.requestedTitle}' was taken by page ${collision.existingPageId}, so policy '${collision.policy}' renamed the new page.`;
+}
+
+/**
+ * Per-connection state. Every SSE session has its own, so that one
+ * developer's confluence_setup_project does not change where other sessions
+ * on the same server publish, or with whose token.
+ */
+interface SessionContext {
+  // Profile set up in this session; used when a tool is called without one
+  profile?: string;
+  // Credentials given to confluence_setup_project in this session, kept in memory only
+  connection?: ConfluenceConnection;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  context: SessionContext;
+}
+
+interface ProfileContext {
+  projectConfig: ProjectConfigManager;
+  config: ProjectConfig | null;
+  client: ConfluenceClient;
+  cache: MarkdownPageCache;
+}
+
+/**
+ * Resolve the profile a tool call runs against: its project config, a client
+ * for its Confluence instance and its page mapping cache. Credentials set up
+ * in the session come first, then the secret references stored in the
+ * profile; only profiles without a Confluence URL use the environment
+ * settings. Raw tokens are never stored, so a session cannot pick up another
+ * session's token, and a profile set up with one fails in other sessions.
+ */
+function openProfile(session: SessionContext, profile?: string): ProfileContext {
+  const name = profile || session.profile;
+  const projectConfig = new ProjectConfigManager(undefined, name);
+  projectConfig.requireProfile();
+
+  const connection = session.connection && projectConfig.getProfileName() === session.profile
+    ? session.connection
+    : projectConfig.getConnection();
+
+  return {
+    projectConfig,
+    config: projectConfig.getConfig(),
+    client: new ConfluenceClient(connection),
+    cache: new MarkdownPageCache(projectConfig.getCacheFile())
+  };
+}
+
+function publisherFor(context: ProfileContext): PagePublisher {
+  return new PagePublisher(context.client, context.cache, context.projectConfig);
+}
+
+/**
+ * Only `env:` and `file:` references, which point at secrets the operator
+ * provisioned, are stored in the shared project config. A raw token stays in
+ * the session that passed it.
+ */
+function storedSecret(token?: string): string | undefined {
+  if (!token) {
+    return undefined;
+  }
+
+  const storage = secretStorage(token);
+  return storage === 'env' || storage === 'file' ? token : undefined;
+}
+
+/**
+ * Say where a profile's token lives without revealing it. Environment
+ * variable names and file paths are not secret.
+ */
+function describeTokenStorage(token?: string): string | undefined {
+  if (!token) {
+    return undefined;
+  }
+
+  const storage = secretStorage(token);
+  return storage === 'env' || storage === 'file' ? token : storage;
+}
+
+// Create an MCP server instance with Confluence tools for one session
+const getServer = (session: SessionContext) => {
   const server = new McpServer({
     name: 'confluence-mcp',
     version: '0.1.0',
@@ -107,21 +210,720 @@ const getServer = () => {
   // Load configuration on startup
   loadConfig();
 
-  // Register Confluence tools
-  server.tool('confluence_list_spaces', 'List all available Confluence spaces', {}, async () => {
-    try {
-      const client = new ConfluenceClient();
-      const spaces = await client.listSpaces();
+  // Register Confluence tools
+  server.tool('confluence_list_spaces', 'List available Confluence spaces, one page of results at a time', {
+    limit: z.number().int().positive().max(250).optional().describe('Optional: Maximum number of spaces to return (default 100)'),
+    cursor: z.string().optional().describe('Optional: The nextCursor value from a previous call, to fetch the next batch'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ limit, cursor, profile }) => {
+    try {
+      const { client } = openProfile(session, profile);
+      const { results: spaces, nextCursor } = await client.listSpacesPage({ limit, cursor });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              spaces: spaces.map(space => ({
+                key: space.key,
+                name: space.name
+              })),
+              nextCursor
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to list Confluence spaces'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_list_pages', 'List pages in a Confluence space, one page of results at a time', {
+    spaceKey: z.string().optional().describe('The key of the Confluence space to list pages from (uses default from config/env if not provided)'),
+    limit: z.number().int().positive().max(250).optional().describe('Optional: Maximum number of pages to return (default 100)'),
+    cursor: z.string().optional().describe('Optional: The nextCursor value from a previous call, to fetch the next batch'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ spaceKey, limit, cursor, profile }) => {
+    try {
+      const { config, client } = openProfile(session, profile);
+      
+      // Use project config default if not provided, then fall back to env default
+      const finalSpaceKey = spaceKey || config?.spaceKey || getDefaultSpaceKey();
+      
+      if (!finalSpaceKey) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No space key provided. Either:\n' +
+                       '1. Pass spaceKey parameter, or\n' +
+                       '2. Set up project config with confluence_setup_project, or\n' +
+                       '3. Set CONFLUENCE_SPACE_KEY in .env file'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const { results: pages, nextCursor } = await client.listPagesPage(finalSpaceKey, { limit, cursor });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              pages: pages.map(page => ({
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version.number
+              })),
+              nextCursor
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to list Confluence pages'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_search', 'Search Confluence pages with CQL or structured filters', {
+    cql: z.string().optional().describe('Optional: Raw CQL expression, combined with any filters below (e.g. text ~ "deployment")'),
+    titleContains: z.string().optional().describe('Optional: Only pages whose title contains this text'),
+    labels: z.array(z.string()).optional().describe('Optional: Only pages carrying all of these labels'),
+    ancestorId: z.string().optional().describe('Optional: Only pages below this page ID'),
+    spaceKey: z.string().optional().describe('Optional: Only pages in this space'),
+    modifiedSince: z.string().optional().describe('Optional: Only pages modified on or after this date (YYYY-MM-DD or ISO timestamp)'),
+    limit: z.number().int().positive().max(100).optional().describe('Optional: Maximum number of results to return (default 100)'),
+    cursor: z.string().optional().describe('Optional: The nextCursor value from a previous call, to fetch the next batch'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ cql, titleContains, labels, ancestorId, spaceKey, modifiedSince, limit, cursor, profile }) => {
+    try {
+      if (!cql && !titleContains && !labels?.length && !ancestorId && !spaceKey && !modifiedSince && !cursor) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Provide a cql expression or at least one filter (titleContains, labels, ancestorId, spaceKey, modifiedSince)'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const query = buildCql({ titleContains, label: labels, ancestorId, spaceKey, modifiedSince }, cql);
+
+      const { client } = openProfile(session, profile);
+      const { results, nextCursor } = await client.search(query, { limit, cursor });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              cql: query,
+              results,
+              nextCursor
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.response?.data?.message || error.message || 'Failed to search Confluence'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_get_page', 'Read a Confluence page and return its content as Markdown', {
+    pageId: z.string().optional().describe('The ID of the page to read'),
+    title: z.string().optional().describe('Alternatively: the exact title of the page to read'),
+    spaceKey: z.string().optional().describe('Optional: Space to look up the title in (uses default from config/env if not provided)'),
+    includeStorage: z.boolean().optional().describe('Optional: Also return the raw storage-format XHTML'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, title, spaceKey, includeStorage, profile }) => {
+    try {
+      const { config, client } = openProfile(session, profile);
+      const finalSpaceKey = spaceKey || config?.spaceKey || getDefaultSpaceKey();
+
+      if (!pageId && !(title && finalSpaceKey)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Provide either pageId, or title together with a space key (parameter, project config or CONFLUENCE_SPACE_KEY)'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const page = pageId
+        ? await client.getPage(pageId)
+        : await client.findPageByTitle(finalSpaceKey!, title!);
+
+      if (!page) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `Page '${title}' not found in space '${finalSpaceKey}'`
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const markdown = new StorageConverter().toMarkdown(page.body);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              page: {
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version.number,
+                lastModified: page.version.when,
+                lastModifiedBy: page.version.by?.displayName,
+                ancestors: page.ancestors
+              },
+              markdown,
+              storage: includeStorage ? page.body : undefined
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to read Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_create_page', 'Create a new Confluence page from Markdown content', {
+    title: z.string().optional().describe('The title of the new page (front matter `title` takes precedence)'),
+    markdownContent: z.string().describe('The Markdown content to be converted and used for the page. YAML front matter (title, space, parent, labels, pageId, confluence: skip) overrides the other arguments'),
+    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase for caching'),
+    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
+    parentPageId: z.string().optional().describe('Optional: Override the default parent page from project config'),
+    labels: z.array(z.string()).optional().describe('Optional: Labels to put on the page (front matter `labels` takes precedence)'),
+    titleCollision: z.enum(TITLE_COLLISION_POLICIES as [TitleCollisionPolicy, ...TitleCollisionPolicy[]]).optional().describe(`${TITLE_COLLISION_DESCRIPTION}. Overrides the project config`),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ title, markdownContent, markdownPath, spaceKey, parentPageId, labels, titleCollision, profile }) => {
+    try {
+      const context = openProfile(session, profile);
+      const config = context.config;
+      const publisher = publisherFor(context);
+
+      // Front matter first, then tool arguments, then project config and env defaults
+      const target = await publisher.resolveTarget(markdownContent, { title, spaceKey, parentPageId, labels }, {
+        spaceKey: config?.spaceKey || getDefaultSpaceKey(),
+        parentPageId: config?.parentPageId
+      });
+
+      if (target.skip) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                skipped: true,
+                message: `Skipped: ${markdownPath || 'content'} is marked 'confluence: skip' in its front matter`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (!target.title) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No title provided. Pass title or set `title` in the front matter'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      if (!target.spaceKey) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No space key provided. Either:\n' +
+                       '1. Pass spaceKey parameter, or\n' +
+                       '2. Set `space` in the front matter, or\n' +
+                       '3. Set up project config with confluence_setup_project, or\n' +
+                       '4. Set CONFLUENCE_SPACE_KEY in .env file'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      // A front matter pageId means the page already exists, so update it in place
+      const { page, attachments, labels: labelChanges, warnings, unchanged, titleCollision: collision } = target.pageId
+        ? await publisher.updatePage({
+            pageId: target.pageId,
+            title: target.title,
+            markdownContent,
+            markdownPath,
+            parentPageId: target.parentPageId,
+            labels: target.labels
+          })
+        : await publisher.createPage({
+            spaceKey: target.spaceKey,
+            title: target.title,
+            markdownContent,
+            markdownPath,
+            parentPageId: target.parentPageId,
+            labels: target.labels,
+            titleCollision
+          });
+      const updated = !!target.pageId || collision?.policy === 'update';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: (unchanged
+                ? `✅ Page '${page.title}' is already up to date, no new version written`
+                : `✅ Page '${page.title}' ${updated ? 'updated' : 'created'} successfully!`) +
+                (collision ? describeTitleCollision(collision) : ''),
+              titleCollision: collision,
+              page: {
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version,
+                parentPageId: target.parentPageId
+              },
+              attachments,
+              labels: labelChanges,
+              warnings
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      if (error instanceof TitleCollisionError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `⚠️ ${error.message}. Update that page with confluence_update_page, pick another title, or set titleCollision.`,
+                collision: error
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to create Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_update_page', 'Update an existing Confluence page from Markdown content', {
+    pageId: z.string().describe('The ID of the Confluence page to update'),
+    title: z.string().describe('The new title for the page (front matter `title` takes precedence)'),
+    markdownContent: z.string().describe('The Markdown content to be converted and used for the page. YAML front matter (title, parent, pageId, confluence: skip) overrides the other arguments'),
+    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase for caching'),
+    version: z.number().optional().describe('Optional: The version number the edit is based on (read from Confluence if not provided)'),
+    expectedVersion: z.number().optional().describe('Optional: Refuse the update unless the page is still at exactly this version'),
+    parentPageId: z.string().optional().describe('Optional: Override the default parent page from project config'),
+    cleanupAttachments: z.boolean().optional().describe('Optional: Delete diagram and image attachments an earlier publish of markdownPath uploaded that the new content no longer uses (default true)'),
+    labels: z.array(z.string()).optional().describe('Optional: Labels to keep on the page; labels an earlier publish set but no longer listed are removed (front matter `labels` takes precedence)'),
+    force: z.boolean().optional().describe('Optional: Write a new version and re-upload attachments even if nothing changed since the last publish'),
+    message: z.string().optional().describe('Optional: Version comment shown in the page history, e.g. the git commit subject'),
+    minorEdit: z.boolean().optional().describe('Optional: Mark the change as a minor edit so watchers are not notified'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, title, markdownContent, markdownPath, version, expectedVersion, parentPageId, cleanupAttachments, labels, force, message, minorEdit, profile }) => {
+    try {
+      const context = openProfile(session, profile);
+      const config = context.config;
+      const publisher = publisherFor(context);
+
+      // Front matter first, then tool arguments, then where the page was last
+      // put (it may have been moved), then the project config default parent
+      const mapping = markdownPath ? context.cache.getPageMapping(markdownPath) : undefined;
+      const target = await publisher.resolveTarget(markdownContent, { pageId, title, parentPageId, labels }, {
+        spaceKey: config?.spaceKey || getDefaultSpaceKey(),
+        parentPageId: (mapping?.pageId === pageId && mapping.parentPageId) || config?.parentPageId
+      });
+
+      if (target.skip) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                skipped: true,
+                message: `Skipped: ${markdownPath || 'content'} is marked 'confluence: skip' in its front matter`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      // Render, update the page (with parent if specified), upload diagrams and cache the mapping
+      const { page, attachments, labels: labelChanges, warnings, deletedAttachments, unchanged } = await publisher.updatePage({
+        pageId: target.pageId!,
+        title: target.title!,
+        markdownContent,
+        markdownPath,
+        version,
+        expectedVersion,
+        parentPageId: target.parentPageId,
+        cleanupAttachments,
+        labels: target.labels,
+        force,
+        message,
+        minorEdit
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: unchanged
+                ? `✅ Page '${page.title}' is already up to date, no new version written`
+                : `✅ Page '${page.title}' updated successfully!`,
+              unchanged,
+              page: {
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version,
+                parentPageId: target.parentPageId
+              },
+              attachments,
+              labels: labelChanges,
+              deletedAttachments,
+              warnings
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `⚠️ ${error.message}. Fetch the page with confluence_get_page or run confluence_sync before overwriting it.`,
+                conflict: error
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to update Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_publish', 'Publish Markdown to Confluence, creating the page or updating it if it already exists', {
+    markdownPath: z.string().optional().describe('Optional: Path of the Markdown file; used to find the page it was published to, and read from the project base directory when markdownContent is not given'),
+    markdownContent: z.string().optional().describe('Optional: The Markdown content. YAML front matter (title, space, parent, labels, pageId, confluence: skip) overrides the other arguments'),
+    title: z.string().optional().describe('Optional: Page title (defaults to the front matter title, the first heading, or the file name)'),
+    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
+    parentPageId: z.string().optional().describe('Optional: Override the default parent page from project config'),
+    labels: z.array(z.string()).optional().describe('Optional: Labels to put on the page (front matter `labels` takes precedence)'),
+    force: z.boolean().optional().describe('Optional: Write a new version even if nothing changed since the last publish'),
+    message: z.string().optional().describe('Optional: Version comment shown in the page history when updating'),
+    minorEdit: z.boolean().optional().describe('Optional: Mark an update as a minor edit so watchers are not notified'),
+    titleCollision: z.enum(TITLE_COLLISION_POLICIES as [TitleCollisionPolicy, ...TitleCollisionPolicy[]]).optional().describe(`${TITLE_COLLISION_DESCRIPTION}. Applies when the title is taken outside the parent page; overrides the project config`),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ markdownPath, markdownContent, title, spaceKey, parentPageId, labels, force, message, minorEdit, titleCollision, profile }) => {
+    try {
+      if (markdownContent === undefined && !markdownPath) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'Pass markdownPath, markdownContent, or both'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const context = openProfile(session, profile);
+      const config = context.config;
+      const publisher = publisherFor(context);
+
+      const content = markdownContent ?? await fs.readFile(resolveProjectPath(markdownPath!, context.projectConfig.getBaseDir()), 'utf8');
+
+      // Same precedence as confluence_update_page: a page that was moved stays where it is
+      const mapping = markdownPath ? context.cache.getPageMapping(markdownPath) : undefined;
+      const target = await publisher.resolveTarget(content, {
+        title: title || (markdownPath ? DirectoryPublisher.titleFor(content, markdownPath) : undefined),
+        spaceKey,
+        parentPageId,
+        labels
+      }, {
+        spaceKey: config?.spaceKey || getDefaultSpaceKey(),
+        parentPageId: mapping?.parentPageId || config?.parentPageId
+      });
+
+      if (target.skip) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                skipped: true,
+                message: `Skipped: ${markdownPath || 'content'} is marked 'confluence: skip' in its front matter`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      if (!target.title) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No title provided. Pass title or markdownPath, or set `title` in the front matter'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      if (!target.spaceKey) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No space key provided. Either:\n' +
+                       '1. Pass spaceKey parameter, or\n' +
+                       '2. Set `space` in the front matter, or\n' +
+                       '3. Set up project config with confluence_setup_project, or\n' +
+                       '4. Set CONFLUENCE_SPACE_KEY in .env file'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const result = await publisher.publish({
+        pageId: target.pageId,
+        spaceKey: target.spaceKey,
+        title: target.title,
+        markdownContent: content,
+        markdownPath,
+        parentPageId: target.parentPageId,
+        labels: target.labels,
+        force,
+        message,
+        minorEdit,
+        titleCollision
+      });
+      const { page } = result;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: (result.unchanged
+                ? `✅ Page '${page.title}' is already up to date, no new version written`
+                : `✅ Page '${page.title}' ${result.action} successfully!`) +
+                (result.titleCollision ? describeTitleCollision(result.titleCollision) : ''),
+              action: result.action,
+              matchedBy: result.matchedBy,
+              unchanged: result.unchanged,
+              titleCollision: result.titleCollision,
+              page: {
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version,
+                parentPageId: target.parentPageId
+              },
+              attachments: result.attachments,
+              labels: result.labels,
+              deletedAttachments: result.deletedAttachments,
+              warnings: result.warnings
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      if (error instanceof TitleCollisionError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `⚠️ ${error.message}. Pass that pageId to update it where it is, pick another title, or set titleCollision.`,
+                collision: error
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to publish Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_preview_page', 'Preview what publishing Markdown would write to Confluence, without changing anything', {
+    markdownContent: z.string().describe('The Markdown content to preview. YAML front matter is applied as in confluence_create_page'),
+    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file, used to resolve links and images and to find the published page'),
+    title: z.string().optional().describe('Optional: Page title, used to find an existing page (front matter `title` takes precedence)'),
+    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
+    pageId: z.string().optional().describe('Optional: The page the content would replace (front matter `pageId` takes precedence)'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ markdownContent, markdownPath, title, spaceKey, pageId, profile }) => {
+    try {
+      const context = openProfile(session, profile);
+      const config = context.config;
+      const publisher = publisherFor(context);
+
+      const target = await publisher.resolveTarget(markdownContent, { title, spaceKey, pageId }, {
+        spaceKey: config?.spaceKey || getDefaultSpaceKey()
+      });
+
+      if (target.skip) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                skipped: true,
+                message: `Skipped: ${markdownPath || 'content'} is marked 'confluence: skip' in its front matter and would not be published`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      const preview = await publisher.preview({
+        markdownContent,
+        markdownPath,
+        title: target.title,
+        spaceKey: target.spaceKey,
+        pageId: target.pageId
+      });
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              spaces: spaces.map(space => ({
-                key: space.key,
-                name: space.name
-              }))
+              success: true,
+              message: preview.existingPage
+                ? `Would update page '${preview.existingPage.title}' (v${preview.existingPage.version}). Nothing was written to Confluence.`
+                : `Would create page '${target.title || '(untitled)'}' in space '${target.spaceKey}'. Nothing was written to Confluence.`,
+              ...preview
             }, null, 2)
           }
         ]
@@ -132,7 +934,7 @@ const getServer = () => {
           {
             type: 'text',
             text: JSON.stringify({
-              error: error.message || 'Failed to list Confluence spaces'
+              error: error.message || 'Failed to preview Confluence page'
             }, null, 2)
           }
         ],
@@ -141,16 +943,21 @@ const getServer = () => {
     }
   });
 
-  server.tool('confluence_list_pages', 'List all pages in a Confluence space', {
-    spaceKey: z.string().optional().describe('The key of the Confluence space to list pages from (uses default from config/env if not provided)')
-  }, async ({ spaceKey }) => {
+  server.tool('confluence_publish_directory', 'Publish a folder of Markdown files as a Confluence page tree', {
+    directory: z.string().optional().describe('Optional: Folder to publish, relative to the project base directory (defaults to the base directory itself)'),
+    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
+    parentPageId: z.string().optional().describe('Optional: Page to publish the tree under (defaults to the parent page from project config)'),
+    labels: z.array(z.string()).optional().describe('Optional: Labels to put on every page that does not set its own in front matter'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ directory, spaceKey, parentPageId, labels, profile }) => {
     try {
-      const projectConfig = new ProjectConfigManager();
-      const config = projectConfig.getConfig();
-      
-      // Use project config default if not provided, then fall back to env default
+      const context = openProfile(session, profile);
+      const config = context.config;
+      const baseDir = context.projectConfig.getBaseDir();
+
       const finalSpaceKey = spaceKey || config?.spaceKey || getDefaultSpaceKey();
-      
+      const finalParentPageId = parentPageId || config?.parentPageId;
+
       if (!finalSpaceKey) {
         return {
           content: [
@@ -168,23 +975,43 @@ const getServer = () => {
         };
       }
 
-      const client = new ConfluenceClient();
-      const pages = await client.listPages(finalSpaceKey);
+      if (!baseDir && !directory) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No directory provided. Pass directory or set baseDir with confluence_setup_project'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
+
+      const root = resolveProjectPath(directory || '.', baseDir);
+      const directoryPublisher = new DirectoryPublisher(baseDir || process.cwd(), publisherFor(context), context.cache);
+      const results = await directoryPublisher.publish(root, {
+        spaceKey: finalSpaceKey,
+        parentPageId: finalParentPageId,
+        labels
+      });
+
+      const count = (status: string) => results.filter(result => result.status === status).length;
+      const failed = count('failed');
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              pages: pages.map(page => ({
-                id: page.id,
-                title: page.title,
-                spaceKey: page.spaceKey,
-                version: page.version.number
-              }))
+              success: failed === 0,
+              message: `${failed === 0 ? '✅' : '⚠️'} Published ${root}: ${count('created')} created, ${count('updated')} updated, ${count('unchanged')} unchanged, ${count('skipped')} skipped, ${failed} failed`,
+              results
             }, null, 2)
           }
-        ]
+        ],
+        isError: failed > 0 && failed === results.length
       };
     } catch (error: any) {
       return {
@@ -192,7 +1019,7 @@ const getServer = () => {
           {
             type: 'text',
             text: JSON.stringify({
-              error: error.message || 'Failed to list Confluence pages'
+              error: error.message || 'Failed to publish directory'
             }, null, 2)
           }
         ],
@@ -201,31 +1028,72 @@ const getServer = () => {
     }
   });
 
-  server.tool('confluence_create_page', 'Create a new Confluence page from Markdown content', {
-    title: z.string().describe('The title of the new page'),
-    markdownContent: z.string().describe('The Markdown content to be converted and used for the page'),
-    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase for caching'),
-    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
-    parentPageId: z.string().optional().describe('Optional: Override the default parent page from project config')
-  }, async ({ title, markdownContent, markdownPath, spaceKey, parentPageId }) => {
+  server.tool('confluence_sync', 'Sync a published Markdown file with its Confluence page, detecting which side changed', {
+    markdownPath: z.string().describe('The path of the published Markdown file (as used when it was created)'),
+    markdownContent: z.string().optional().describe('Optional: Current Markdown content; read from markdownPath under the project base directory if not provided'),
+    direction: z.enum(['auto', 'push', 'pull']).optional().describe('Optional: auto (default) pushes or pulls whichever side changed and reports conflicts; push or pull force one side to win'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ markdownPath, markdownContent, direction, profile }) => {
     try {
-      const projectConfig = new ProjectConfigManager();
-      const config = projectConfig.getConfig();
+      const { projectConfig, client, cache } = openProfile(session, profile);
+      const localFile = markdownContent === undefined
+        ? resolveProjectPath(markdownPath, projectConfig.getBaseDir())
+        : undefined;
+
+      const sync = new PageSync(client, cache, projectConfig);
+      const result = await sync.sync({ markdownPath, markdownContent, localFile, direction });
+
+      const messages: Record<string, string> = {
+        'in-sync': '✅ Markdown and Confluence page are in sync',
+        'pushed': `✅ Pushed local changes to '${result.page.title}'`,
+        'pulled': `✅ Pulled remote changes from '${result.page.title}'`,
+        'conflict': `⚠️ Both the Markdown file and '${result.page.title}' changed since the last publish. Review the diff and re-run with direction 'push' or 'pull'.`
+      };
 
-      // Use project config defaults if not provided, then fall back to env default
-      const finalSpaceKey = spaceKey || config?.spaceKey || getDefaultSpaceKey();
-      const finalParentPageId = parentPageId || config?.parentPageId;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: result.status !== 'conflict',
+              message: messages[result.status],
+              ...result
+            }, null, 2)
+          }
+        ],
+        isError: result.status === 'conflict'
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to sync Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
 
-      if (!finalSpaceKey) {
+  server.tool('confluence_export_tree', 'Export a Confluence page and all its descendants to a folder of Markdown files', {
+    pageId: z.string().optional().describe('Optional: Root page of the tree to export'),
+    spaceKey: z.string().optional().describe('Optional: Export a whole space, starting from its homepage, instead of a single page tree'),
+    directory: z.string().describe('Folder to write to, relative to the project base directory; the root page becomes its index.md'),
+    overwrite: z.boolean().optional().describe('Optional: Replace Markdown files and attachments that already exist (default false, existing files are skipped)'),
+    includeAttachments: z.boolean().optional().describe('Optional: Download page attachments next to the Markdown files (default true)'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, spaceKey, directory, overwrite, includeAttachments, profile }) => {
+    try {
+      if (!pageId && !spaceKey) {
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                error: 'No space key provided. Either:\n' +
-                       '1. Pass spaceKey parameter, or\n' +
-                       '2. Set up project config with confluence_setup_project, or\n' +
-                       '3. Set CONFLUENCE_SPACE_KEY in .env file'
+                error: 'Pass pageId to export a page tree or spaceKey to export a whole space'
               }, null, 2)
             }
           ],
@@ -233,78 +1101,137 @@ const getServer = () => {
         };
       }
 
-      const client = new ConfluenceClient();
-      const converter = new MarkdownConverter();
-      const diagramProcessor = new DiagramProcessor();
-      const cache = new MarkdownPageCache();
+      const { projectConfig, client, cache } = openProfile(session, profile);
+      const target = resolveProjectPath(directory, projectConfig.getBaseDir());
+      const rootPageId = pageId || await client.getSpaceHomepageId(spaceKey!);
 
-      // Process Mermaid diagrams first (extract and convert to PNG)
-      const processed = await diagramProcessor.processMarkdown(markdownContent, markdownPath);
-      
-      console.log(`Processed ${processed.diagrams.length} diagram(s) from Markdown`);
-
-      // Convert markdown to Confluence format (now with image references instead of Mermaid)
-      const confluenceContent = await converter.convertToConfluence(processed.markdown);
-
-      // Create the page (with parent if specified)
-      const page = await client.createPage(finalSpaceKey, title, confluenceContent, finalParentPageId);
-
-      // Upload diagram PNGs as attachments to the page
-      if (processed.diagrams.length > 0) {
-        console.log(`Uploading ${processed.diagrams.length} diagram attachment(s)...`);
-        const config = loadConfig as any;
-        const baseUrl = process.env.CONFLUENCE_BASE_URL || '';
-        const username = process.env.CONFLUENCE_USERNAME || '';
-        const apiToken = process.env.CONFLUENCE_API_TOKEN || '';
-
-        for (const diagram of processed.diagrams) {
-          try {
-            const formData = new FormData();
-            formData.append('file', diagram.buffer, {
-              filename: diagram.filename,
-              contentType: 'image/png'
-            });
-
-            const attachmentUrl = `${baseUrl}/rest/api/content/${page.id}/child/attachment`;
-            await axios.post(attachmentUrl, formData, {
-              headers: {
-                'Authorization': 'Basic ' + Buffer.from(`${username}:${apiToken}`).toString('base64'),
-                'X-Atlassian-Token': 'no-check',
-                ...formData.getHeaders()
-              }
-            });
+      const exporter = new TreeExporter(client, cache, projectConfig);
+      const results = await exporter.export(rootPageId, target, { overwrite, includeAttachments });
 
-            console.log(`✅ Uploaded attachment: ${diagram.filename}`);
-          } catch (error: any) {
-            console.error(`❌ Failed to upload ${diagram.filename}:`, error.message);
+      const count = (status: string) => results.filter(result => result.status === status).length;
+      const failed = count('failed');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: failed === 0,
+              message: `${failed === 0 ? '✅' : '⚠️'} Exported to ${target}: ${count('exported')} exported, ${count('skipped')} skipped, ${failed} failed`,
+              note: 'Publish the folder with confluence_publish_directory to update the same pages',
+              results
+            }, null, 2)
           }
-        }
-      }
+        ],
+        isError: failed > 0 && failed === results.length
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to export Confluence page tree'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
 
-      // Cache the mapping if markdownPath is provided
-      if (markdownPath) {
-        cache.setPageMapping(markdownPath, {
-          markdownPath,
-          pageId: page.id,
-          spaceKey: page.spaceKey,
-          title: page.title,
-          lastUpdated: new Date().toISOString()
-        });
+  server.tool('confluence_link_existing', 'Match local Markdown files to pages that already exist in Confluence and record them in the mapping cache', {
+    directory: z.string().optional().describe('Optional: Folder to link, relative to the project base directory (defaults to the base directory itself)'),
+    spaceKey: z.string().optional().describe('Optional: Override the default space key from project config'),
+    parentPageId: z.string().optional().describe('Optional: Page the folder is published under, used to match files by path (defaults to the parent page from project config)'),
+    confirm: z.boolean().optional().describe('Optional: Save the proposed mapping (default false, only shows it)'),
+    relink: z.boolean().optional().describe('Optional: Replace mappings that already point at a different page (default false)'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ directory, spaceKey, parentPageId, confirm, relink, profile }) => {
+    try {
+      const { projectConfig, config, client, cache } = openProfile(session, profile);
+      const baseDir = projectConfig.getBaseDir();
+
+      if (!baseDir && !directory) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: 'No directory provided. Pass directory or set baseDir with confluence_setup_project'
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
       }
 
+      const root = resolveProjectPath(directory || '.', baseDir);
+      const linker = new PageLinker(baseDir || process.cwd(), client, cache);
+      const results = await linker.link(root, {
+        spaceKey: spaceKey || config?.spaceKey || getDefaultSpaceKey(),
+        parentPageId: parentPageId || config?.parentPageId,
+        confirm,
+        relink
+      });
+
+      const count = (status: string) => results.filter(result => result.status === status).length;
+      const matched = count(confirm ? 'linked' : 'proposed');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: count('failed') === 0,
+              message: confirm
+                ? `✅ Linked ${matched} file(s) to existing pages: ${count('already-linked')} already linked, ${count('conflict')} conflicts, ${count('unmatched')} unmatched, ${count('failed')} failed`
+                : `Proposed ${matched} new mapping(s): ${count('already-linked')} already linked, ${count('conflict')} conflicts, ${count('unmatched')} unmatched, ${count('failed')} failed. Review the results and call again with confirm: true to save them.`,
+              results
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message || 'Failed to link existing pages'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  server.tool('confluence_move_page', 'Move a Confluence page under a new parent or next to a sibling, keeping its content', {
+    pageId: z.string().describe('The ID of the page to move'),
+    targetPageId: z.string().describe('The new parent page (position append) or the sibling to place the page next to (before/after)'),
+    position: z.enum(['append', 'before', 'after']).optional().describe('Optional: append (default) makes the page the last child of the target; before/after places it next to the target'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, targetPageId, position, profile }) => {
+    try {
+      const publisher = publisherFor(openProfile(session, profile));
+      const page = await publisher.movePage(pageId, targetPageId, position);
+      const parent = page.ancestors[page.ancestors.length - 1];
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `✅ Page '${title}' created successfully!`,
+              message: `✅ Page '${page.title}' moved${parent ? ` under '${parent.title}'` : ''}`,
               page: {
                 id: page.id,
                 title: page.title,
                 spaceKey: page.spaceKey,
-                version: page.version,
-                parentPageId: finalParentPageId
+                version: page.version.number,
+                parentPageId: parent?.id,
+                ancestors: page.ancestors
               }
             }, null, 2)
           }
@@ -316,7 +1243,7 @@ const getServer = () => {
           {
             type: 'text',
             text: JSON.stringify({
-              error: error.message || 'Failed to create Confluence page'
+              error: error.response?.data?.message || error.message || 'Failed to move Confluence page'
             }, null, 2)
           }
         ],
@@ -325,78 +1252,117 @@ const getServer = () => {
     }
   });
 
-  server.tool('confluence_update_page', 'Update an existing Confluence page from Markdown content', {
-    pageId: z.string().describe('The ID of the Confluence page to update'),
-    title: z.string().describe('The new title for the page'),
-    markdownContent: z.string().describe('The Markdown content to be converted and used for the page'),
-    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase for caching'),
-    version: z.number().describe('The current version number of the page (required for updates)'),
-    parentPageId: z.string().optional().describe('Optional: Override the default parent page from project config')
-  }, async ({ pageId, title, markdownContent, markdownPath, version, parentPageId }) => {
+  server.tool('confluence_rename_page', 'Change the title of a Confluence page without touching its content', {
+    pageId: z.string().describe('The ID of the page to rename'),
+    title: z.string().describe('The new title'),
+    version: z.number().optional().describe('Optional: The version number the rename is based on (read from Confluence if not provided)'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, title, version, profile }) => {
     try {
-      const projectConfig = new ProjectConfigManager();
-      const config = projectConfig.getConfig();
+      const publisher = publisherFor(openProfile(session, profile));
+      const page = await publisher.renamePage(pageId, title, version);
 
-      // Use project config default parent if not provided
-      const finalParentPageId = parentPageId || config?.parentPageId;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `✅ Page renamed to '${page.title}'`,
+              page: {
+                id: page.id,
+                title: page.title,
+                spaceKey: page.spaceKey,
+                version: page.version.number
+              },
+              note: 'Update the `title` in the Markdown front matter too, or the next publish will rename the page back'
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `⚠️ ${error.message}. Fetch the current version with confluence_get_page and retry.`,
+                conflict: error
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
 
-      const client = new ConfluenceClient();
-      const converter = new MarkdownConverter();
-      const diagramProcessor = new DiagramProcessor();
-      const cache = new MarkdownPageCache();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.response?.data?.message || error.message || 'Failed to rename Confluence page'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
 
-      // Process Mermaid diagrams first (extract and convert to PNG)
-      const processed = await diagramProcessor.processMarkdown(markdownContent, markdownPath);
-      
-      console.log(`Processed ${processed.diagrams.length} diagram(s) from Markdown`);
-
-      // Convert markdown to Confluence format (now with image references instead of Mermaid)
-      const confluenceContent = await converter.convertToConfluence(processed.markdown);
-
-      // Update the page (with parent if specified)
-      const page = await client.updatePage(pageId, title, confluenceContent, version, finalParentPageId);
-
-      // Upload diagram PNGs as attachments to the page
-      if (processed.diagrams.length > 0) {
-        console.log(`Uploading ${processed.diagrams.length} diagram attachment(s)...`);
-        const baseUrl = process.env.CONFLUENCE_BASE_URL || '';
-        const username = process.env.CONFLUENCE_USERNAME || '';
-        const apiToken = process.env.CONFLUENCE_API_TOKEN || '';
-
-        for (const diagram of processed.diagrams) {
-          try {
-            const formData = new FormData();
-            formData.append('file', diagram.buffer, {
-              filename: diagram.filename,
-              contentType: 'image/png'
-            });
-
-            const attachmentUrl = `${baseUrl}/rest/api/content/${page.id}/child/attachment`;
-            await axios.post(attachmentUrl, formData, {
-              headers: {
-                'Authorization': 'Basic ' + Buffer.from(`${username}:${apiToken}`).toString('base64'),
-                'X-Atlassian-Token': 'no-check',
-                ...formData.getHeaders()
-              }
-            });
+  server.tool('confluence_get_page_history', 'List the versions of a Confluence page with author, date and message', {
+    pageId: z.string().describe('The ID of the page'),
+    limit: z.number().int().positive().max(200).optional().describe('Optional: Maximum number of versions to return (default 100)'),
+    cursor: z.string().optional().describe('Optional: nextCursor from a previous call to fetch the next batch'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, limit, cursor, profile }) => {
+    try {
+      const { client } = openProfile(session, profile);
+      const { results: versions, nextCursor } = await client.getPageHistory(pageId, { limit, cursor });
 
-            console.log(`✅ Uploaded attachment: ${diagram.filename}`);
-          } catch (error: any) {
-            console.error(`❌ Failed to upload ${diagram.filename}:`, error.message);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              pageId,
+              versions: versions.map(version => ({
+                number: version.number,
+                when: version.when,
+                by: version.by?.displayName,
+                message: version.message,
+                minorEdit: version.minorEdit
+              })),
+              nextCursor
+            }, null, 2)
           }
-        }
-      }
+        ]
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: error.response?.data?.message || error.message || 'Failed to read page history'
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
 
-      // Update cache mapping if markdownPath is provided
-      if (markdownPath) {
-        cache.setPageMapping(markdownPath, {
-          markdownPath,
-          pageId: page.id,
-          spaceKey: page.spaceKey,
-          title: page.title,
-          lastUpdated: new Date().toISOString()
-        });
-      }
+  server.tool('confluence_restore_version', 'Restore an earlier version of a Confluence page as a new version', {
+    pageId: z.string().describe('The ID of the page'),
+    version: z.number().int().positive().describe('The version number to restore (see confluence_get_page_history)'),
+    message: z.string().optional().describe('Optional: Version comment for the restore (default "Restored version N")'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, version, message, profile }) => {
+    try {
+      const { client } = openProfile(session, profile);
+      const page = await client.restoreVersion(pageId, version, message);
 
       return {
         content: [
@@ -404,14 +1370,14 @@ const getServer = () => {
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `✅ Page '${title}' updated successfully!`,
+              message: `✅ Restored version ${version} of '${page.title}' as version ${page.version.number}`,
               page: {
                 id: page.id,
                 title: page.title,
                 spaceKey: page.spaceKey,
-                version: page.version,
-                parentPageId: finalParentPageId
-              }
+                version: page.version.number
+              },
+              note: 'The local Markdown still has the newer content; run confluence_sync to pull the restored page'
             }, null, 2)
           }
         ]
@@ -422,7 +1388,7 @@ const getServer = () => {
           {
             type: 'text',
             text: JSON.stringify({
-              error: error.message || 'Failed to update Confluence page'
+              error: error.response?.data?.message || error.message || 'Failed to restore page version'
             }, null, 2)
           }
         ],
@@ -433,11 +1399,11 @@ const getServer = () => {
 
   server.tool('confluence_delete_page', 'Delete a Confluence page and remove it from cache', {
     pageId: z.string().describe('The ID of the Confluence page to delete'),
-    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase to remove from cache')
-  }, async ({ pageId, markdownPath }) => {
+    markdownPath: z.string().optional().describe('Optional: The path to the Markdown file in the local codebase to remove from cache'),
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ pageId, markdownPath, profile }) => {
     try {
-      const client = new ConfluenceClient();
-      const cache = new MarkdownPageCache();
+      const { client, cache } = openProfile(session, profile);
 
       // Delete the page from Confluence
       await client.deletePage(pageId);
@@ -485,30 +1451,62 @@ const getServer = () => {
   // Add project configuration management tools
   server.tool('confluence_setup_project', 'Set up Confluence project configuration with your specific settings', {
     confluenceUrl: z.string().describe('Confluence base URL (e.g., https://realestatenexus.atlassian.net/)'),
-    username: z.string().describe('Confluence username/email'),
-    apiToken: z.string().describe('Confluence API token'),
+    authType: z.enum(AUTH_TYPES as [AuthType, ...AuthType[]]).optional().describe('Optional: basic (default, username + API token), bearer (Data Center personal access token) or oauth (OAuth 2.0 access token)'),
+    username: z.string().optional().describe('Confluence username/email (basic auth)'),
+    apiToken: z.string().optional().describe('Confluence API token (basic auth). Pass env:CONFLUENCE_VAR_NAME or file:/run/secrets/name to reference a secret instead; raw tokens are only kept for this session'),
+    accessToken: z.string().optional().describe('Personal access token or OAuth 2.0 access token (bearer and oauth auth). Accepts env:CONFLUENCE_VAR_NAME and file:/run/secrets/name references like apiToken'),
     spaceKey: z.string().describe('Default space key (e.g., ~712020b38176381dd2400481d381324bb1fb50)'),
     parentPageTitle: z.string().optional().describe('Parent page title in hierarchy (e.g., REN360 Microservices Ecosystem)'),
-    baseDir: z.string().optional().describe('Local file path mapping (optional)')
-  }, async ({ confluenceUrl, username, apiToken, spaceKey, parentPageTitle, baseDir }) => {
+    baseDir: z.string().optional().describe('Local file path mapping (optional)'),
+    managedByLabel: z.string().optional().describe('Label added to every published page (optional, default managed-by-confluence-mcp, empty string to disable)'),
+    titleCollision: z.enum(TITLE_COLLISION_POLICIES as [TitleCollisionPolicy, ...TitleCollisionPolicy[]]).optional().describe(TITLE_COLLISION_DESCRIPTION),
+    profile: z.string().optional().describe('Optional: Name of the profile to create or update (default: the current default profile)'),
+    makeDefault: z.boolean().optional().describe('Optional: Make this profile the default for tools called without a profile (the first profile always becomes the default)')
+  }, async ({ confluenceUrl, authType = 'basic', username, apiToken, accessToken, spaceKey, parentPageTitle, baseDir, managedByLabel, titleCollision, profile, makeDefault }) => {
     try {
-      const projectConfig = new ProjectConfigManager();
+      const projectConfig = new ProjectConfigManager(undefined, profile);
+      const profileName = projectConfig.getProfileName();
+      const isFirstProfile = projectConfig.listProfiles().length === 0;
 
-      // Update environment variables for immediate use
-      process.env.CONFLUENCE_BASE_URL = confluenceUrl;
-      process.env.CONFLUENCE_USERNAME = username;
-      process.env.CONFLUENCE_API_TOKEN = apiToken;
+      const missing = missingCredentials({ authType, username, apiToken, accessToken });
+      if (missing.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                error: `${authType} authentication needs ${missing.join(' and ')}`
+              }, null, 2)
+            }
+          ],
+          isError: true
+        };
+      }
 
-      // Reload configuration
-      loadConfig();
+      // References such as env:VAR_NAME are stored as given but need resolving to connect
+      checkReferenceTarget(apiToken, confluenceUrl);
+      checkReferenceTarget(accessToken, confluenceUrl);
+      const credentials = {
+        authType,
+        username,
+        apiToken: resolveSecret(apiToken),
+        accessToken: resolveSecret(accessToken)
+      };
 
       // Test the connection first
-      const client = new ConfluenceClient();
+      const client = new ConfluenceClient({ baseUrl: confluenceUrl, ...credentials });
 
       // Validate space exists
       try {
-        const spaces = await client.listSpaces();
-        const spaceExists = spaces.some(space => space.key === spaceKey);
+        const spaces: Array<{ key: string; name: string }> = [];
+        let spaceExists = false;
+        for await (const space of client.listSpaces()) {
+          if (space.key === spaceKey) {
+            spaceExists = true;
+            break;
+          }
+          spaces.push(space);
+        }
         if (!spaceExists) {
           return {
             content: [
@@ -532,8 +1530,9 @@ const getServer = () => {
                 error: `Failed to connect to Confluence: ${error.message}`,
                 troubleshooting: [
                   'Check your Confluence URL format',
-                  'Verify your username/email is correct',
-                  'Ensure your API token is valid',
+                  authType === 'basic'
+                    ? 'Verify your username/email and API token are correct'
+                    : `Ensure your ${authType === 'bearer' ? 'personal access token' : 'OAuth access token'} is valid and not expired`,
                   'Make sure you have access to the Confluence instance'
                 ]
               }, null, 2)
@@ -547,18 +1546,25 @@ const getServer = () => {
       let parentPageId: string | undefined;
       if (parentPageTitle) {
         try {
-          const pages = await client.listPages(spaceKey);
-          const parentPage = pages.find(page => page.title === parentPageTitle);
-          if (parentPage) {
-            parentPageId = parentPage.id;
-          } else {
+          // Walk the whole space; stop as soon as the parent turns up
+          const samplePages: Array<{ id: string; title: string }> = [];
+          for await (const page of client.listPages(spaceKey)) {
+            if (page.title === parentPageTitle) {
+              parentPageId = page.id;
+              break;
+            }
+            if (samplePages.length < 10) {
+              samplePages.push({ id: page.id, title: page.title });
+            }
+          }
+          if (!parentPageId) {
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
                     error: `Parent page '${parentPageTitle}' not found in space '${spaceKey}'`,
-                    availablePages: pages.map(p => ({ id: p.id, title: p.title })).slice(0, 10)
+                    availablePages: samplePages
                   }, null, 2)
                 }
               ],
@@ -580,31 +1586,51 @@ const getServer = () => {
         }
       }
 
-      // Save project configuration
+      // Save project configuration. Raw tokens replace stored credentials
+      // with none, so the profile's old token is not sent to the new URL
       projectConfig.saveConfig({
         confluenceUrl,
+        authType,
         username,
-        apiToken,
+        apiToken: storedSecret(apiToken),
+        accessToken: storedSecret(accessToken),
         spaceKey,
         parentPageTitle,
         parentPageId,
-        baseDir
+        baseDir,
+        managedByLabel,
+        titleCollision
       });
 
+      if (makeDefault || isFirstProfile) {
+        projectConfig.setDefaultProfile(profileName);
+      }
+      const isDefault = projectConfig.getDefaultProfile() === profileName;
+
+      // Later calls in this session use these credentials; other sessions are unaffected
+      session.profile = profileName;
+      session.connection = { baseUrl: confluenceUrl, ...credentials };
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: '✅ Confluence project configuration saved successfully!',
+              message: `✅ Confluence profile '${profileName}' saved successfully!`,
+              profile: profileName,
+              isDefault,
               config: {
                 confluenceUrl,
-                username: username.replace(/(.{3}).*(@.*)/, '$1***$2'), // Mask email
+                authType,
+                username: username?.replace(/(.{3}).*(@.*)/, '$1***$2'), // Mask email
+                tokenStorage: describeTokenStorage(projectConfig.getConfig()?.apiToken || projectConfig.getConfig()?.accessToken) || 'session',
                 spaceKey,
                 parentPageTitle,
                 parentPageId,
-                baseDir
+                baseDir,
+                managedByLabel,
+                titleCollision: projectConfig.getConfig()?.titleCollision || 'fail'
               }
             }, null, 2)
           }
@@ -625,12 +1651,15 @@ const getServer = () => {
     }
   });
 
-  server.tool('confluence_show_config', 'Show current project configuration', {}, async () => {
+  server.tool('confluence_show_config', 'Show the project configuration profiles, without secrets', {
+    profile: z.string().optional().describe('Optional: Show only this profile')
+  }, async ({ profile }) => {
     try {
-      const projectConfig = new ProjectConfigManager();
-      const config = projectConfig.getConfig();
+      const projectConfig = new ProjectConfigManager(undefined, profile);
+      projectConfig.requireProfile();
 
-      if (!config) {
+      const names = profile ? [profile] : projectConfig.listProfiles();
+      if (names.length === 0) {
         return {
           content: [
             {
@@ -644,21 +1673,35 @@ const getServer = () => {
         };
       }
 
+      const defaultProfile = projectConfig.getDefaultProfile();
+      const profiles = names.map(name => {
+        const config = projectConfig.getProfileConfig(name)!;
+        return {
+          name,
+          isDefault: name === defaultProfile,
+          confluenceUrl: config.confluenceUrl,
+          authType: config.authType || 'basic',
+          username: config.username?.replace(/(.{3}).*(@.*)/, '$1***$2'), // Mask email
+          hasCredentials: hasCredentials(config),
+          tokenStorage: describeTokenStorage(config.apiToken || config.accessToken),
+          spaceKey: config.spaceKey,
+          parentPageTitle: config.parentPageTitle,
+          parentPageId: config.parentPageId,
+          baseDir: config.baseDir,
+          managedByLabel: config.managedByLabel,
+          titleCollision: config.titleCollision || 'fail',
+          lastUpdated: config.lastUpdated
+        };
+      });
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               configured: true,
-              config: {
-                confluenceUrl: config.confluenceUrl,
-                username: config.username.replace(/(.{3}).*(@.*)/, '$1***$2'), // Mask email
-                spaceKey: config.spaceKey,
-                parentPageTitle: config.parentPageTitle,
-                parentPageId: config.parentPageId,
-                baseDir: config.baseDir,
-                lastUpdated: config.lastUpdated
-              }
+              defaultProfile,
+              profiles
             }, null, 2)
           }
         ]
@@ -678,10 +1721,15 @@ const getServer = () => {
     }
   });
 
-  server.tool('confluence_test_connection', 'Test Confluence connection', {}, async () => {
+  server.tool('confluence_test_connection', 'Test Confluence connection', {
+    profile: z.string().optional().describe(PROFILE_DESCRIPTION)
+  }, async ({ profile }) => {
     try {
-      const client = new ConfluenceClient();
-      const spaces = await client.listSpaces();
+      const { client } = openProfile(session, profile);
+      let spacesCount = 0;
+      for await (const _space of client.listSpaces()) {
+        spacesCount++;
+      }
 
       return {
         content: [
@@ -689,8 +1737,8 @@ const getServer = () => {
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: `✅ Connection successful! Found ${spaces.length} spaces.`,
-              spacesCount: spaces.length
+              message: `✅ Connection successful! Found ${spacesCount} spaces.`,
+              spacesCount
             }, null, 2)
           }
         ]
@@ -731,8 +1779,8 @@ export function startServer(port: number): void {
   app.use(express.json({ limit: '10mb' })); // Limit payload size
   app.use(rateLimitMiddleware);
 
-  // Store transports by session ID
-  const transports: Record<string, SSEServerTransport> = {};
+  // Store transports and per-session credentials by session ID
+  const sessions: Record<string, Session> = {};
 
   // SSE endpoint for establishing the stream (requires authentication)
   app.get('/mcp', authenticateRequest, async (req, res) => {
@@ -745,17 +1793,18 @@ export function startServer(port: number): void {
       // Get the session ID from the transport (it's a read-only property)
       const sessionId = transport.sessionId;
 
-      // Store the transport by session ID
-      transports[sessionId] = transport;
+      // Store the transport by session ID, with room for the session's own credentials
+      const context: SessionContext = {};
+      sessions[sessionId] = { transport, context };
 
       // Set up onclose handler to clean up transport when closed
       transport.onclose = () => {
         console.log(`SSE transport closed for session ${sessionId}`);
-        delete transports[sessionId];
+        delete sessions[sessionId];
       };
 
       // Connect the transport to the MCP server
-      const server = getServer();
+      const server = getServer(context);
       await server.connect(transport);
       console.log(`Established SSE stream with session ID: ${sessionId}`);
     } catch (error) {
@@ -777,7 +1826,7 @@ export function startServer(port: number): void {
       return;
     }
 
-    const transport = transports[sessionId];
+    const transport = sessions[sessionId]?.transport;
     if (!transport) {
       console.error(`No active transport found for session ID: ${sessionId}`);
       res.status(404).send('Session not found');
@@ -818,6 +1867,7 @@ You are a specialized agent for publishing documentation to Confluence using the
 You can:
 - Create new Confluence pages from Markdown
 - Update existing Confluence pages
+- Read Confluence pages back as Markdown
 - List Confluence spaces and pages
 - Convert diagrams before publishing
 - Manage multiple Confluence instances (generic mode)
@@ -849,6 +1899,18 @@ The Confluence MCP server provides these tools:
 6. **confluence_create_page** - Create a new page from Markdown
 7. **confluence_update_page** - Update an existing page
 8. **confluence_delete_page** - Delete a page
+9. **confluence_search** - Find pages with CQL or structured filters
+10. **confluence_get_page** - Read a page back as Markdown
+11. **confluence_sync** - Push or pull whichever side changed, reporting conflicts
+12. **confluence_publish_directory** - Publish a docs folder as a page tree
+13. **confluence_preview_page** - Show the storage XHTML, attachments and diff before publishing
+14. **confluence_move_page** - Move a page under a new parent or next to a sibling
+15. **confluence_rename_page** - Change a page title without touching its content
+16. **confluence_get_page_history** - List page versions with author, date and message
+17. **confluence_restore_version** - Restore an earlier page version
+18. **confluence_export_tree** - Export a page tree or space to Markdown files and attachments
+19. **confluence_link_existing** - Map local Markdown files to pages that already exist
+20. **confluence_publish** - Create or update a page, whichever is needed (preferred for publishing)
 
 ## Generic Mode (Multiple Confluence Instances)
 
@@ -856,6 +1918,7 @@ The MCP server supports working with multiple Confluence instances. Credentials
 - Provided per-request in tool arguments
 - Set via environment variables (default for all requests)
 - Configured per-project using \`confluence_setup_project\`
+- Stored as named profiles (e.g. \`internal\`, \`customer\`); pass \`profile\` to any tool to pick one
 
 ## Workflow Instructions
 
@@ -878,9 +1941,9 @@ The MCP server supports working with multiple Confluence instances. Credentials
 
 4. **Create or update page**
    - Use \`confluence_list_spaces\` to find the target space
-   - Optionally use \`confluence_list_pages\` to find parent page or check if page exists
-   - Use \`confluence_create_page\` for new pages
-   - Use \`confluence_update_page\` for existing pages (requires version number)
+   - Optionally use \`confluence_search\` to find the parent page or check if the page exists
+   - Use \`confluence_publish\` with the \`markdownPath\`; it updates the page if it already exists and creates it otherwise
+   - \`confluence_create_page\` and \`confluence_update_page\` remain for explicit creates and updates
 
 5. **Verify and report**
    - Confirm successful creation/update
@@ -898,7 +1961,7 @@ When working with multiple Confluence instances:
 
 2. **Get or request credentials**
    - Check if default credentials are set
-   - If not, ask user for: baseUrl, username, apiToken
+   - If not, ask user for: baseUrl and either username + apiToken (Cloud) or an accessToken with authType bearer (Data Center PAT) or oauth
    - Store temporarily for this session or suggest setting defaults
 
 3. **Include instance info in all operations**
@@ -1069,6 +2132,18 @@ Tools are discovered automatically via MCP. Current tools include:
 6. \`confluence_create_page\` - Create new page from Markdown
 7. \`confluence_update_page\` - Update existing page
 8. \`confluence_delete_page\` - Delete a page
+9. \`confluence_search\` - Find pages with CQL or filters
+10. \`confluence_get_page\` - Read a page as Markdown
+11. \`confluence_sync\` - Sync a Markdown file with its page
+12. \`confluence_publish_directory\` - Publish a folder as a page tree
+13. \`confluence_preview_page\` - Preview a publish without writing
+14. \`confluence_move_page\` - Move or reorder a page
+15. \`confluence_rename_page\` - Rename a page
+16. \`confluence_get_page_history\` - List page versions
+17. \`confluence_restore_version\` - Restore an earlier version
+18. \`confluence_export_tree\` - Export a page tree to Markdown
+19. \`confluence_link_existing\` - Map local files to existing pages
+20. \`confluence_publish\` - Create or update a page as needed
 
 **Note**: This list is for reference only. VS Code will automatically discover all available tools.
 
@@ -1139,11 +2214,11 @@ Then merge all into settings.json under \`"mcp.servers"\`.
   // Handle server shutdown
   process.on('SIGINT', async () => {
     console.log('Shutting down server...');
-    for (const sessionId in transports) {
+    for (const sessionId in sessions) {
       try {
         console.log(`Closing transport for session ${sessionId}`);
-        await transports[sessionId].close();
-        delete transports[sessionId];
+        await sessions[sessionId].transport.close();
+        delete sessions[sessionId];
       } catch (error) {
         console.error(`Error closing transport for session ${sessionId}:`, error);
       }
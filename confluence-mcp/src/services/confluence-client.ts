@@ -1,70 +1,302 @@
 import axios, { AxiosInstance } from 'axios';
+import FormData from 'form-data';
 import { getConfig } from '../utils/config';
+import { ConfluenceConnection, authHeaders } from '../utils/auth';
+import { applyRetryPolicy } from '../utils/retry';
 
-interface Space {
+const DEFAULT_PAGE_SIZE = 100;
+const PAGE_DETAILS_EXPAND = 'body.storage,version,ancestors,space';
+const MAX_RETRY_DELAY_MS = 60000;
+
+export interface Space {
   id: string;
   key: string;
   name: string;
 }
 
-interface Page {
+export interface PageRequestOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface PagedResult<T> {
+  results: T[];
+  nextCursor?: string;
+}
+
+export interface SearchResult {
   id: string;
   title: string;
   spaceKey: string;
-  version: {
-    number: number;
+  excerpt: string;
+  version: number;
+  lastModified?: string;
+}
+
+export interface PageVersion {
+  number: number;
+  when?: string;
+  message?: string;
+  minorEdit?: boolean;
+  by?: {
+    displayName?: string;
+    accountId?: string;
+    username?: string;
   };
 }
 
+export interface Page {
+  id: string;
+  title: string;
+  spaceKey: string;
+  version: PageVersion;
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  mediaType?: string;
+  fileSize?: number;
+  version: number;
+  downloadLink?: string;
+}
+
+export interface AttachmentUpload {
+  attachment: Attachment;
+  action: 'created' | 'updated';
+}
+
+// Where a moved page ends up relative to the target page: as its last child
+// (`append`), or as the sibling just before or after it
+export type MovePosition = 'append' | 'before' | 'after';
+
+export interface VersionOptions {
+  // Version comment shown in the page history, e.g. a commit subject
+  message?: string;
+  // Minor edits do not notify watchers
+  minorEdit?: boolean;
+}
+
+export interface PageDetails extends Page {
+  body: string;
+  ancestors: Array<{
+    id: string;
+    title: string;
+  }>;
+}
+
+/**
+ * Raised when a page update is based on a version that is no longer current,
+ * i.e. someone else edited the page in the meantime.
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly pageId: string,
+    public readonly baseVersion: number,
+    public readonly remoteVersion: PageVersion
+  ) {
+    super(
+      `Page ${pageId} is at version ${remoteVersion.number}` +
+      (remoteVersion.by?.displayName ? ` (last modified by ${remoteVersion.by.displayName}` : ' (last modified') +
+      (remoteVersion.when ? ` at ${remoteVersion.when})` : ')') +
+      `, but the update was based on version ${baseVersion}`
+    );
+    this.name = 'VersionConflictError';
+  }
+
+  toJSON() {
+    return {
+      pageId: this.pageId,
+      baseVersion: this.baseVersion,
+      remoteVersion: this.remoteVersion.number,
+      lastModifiedBy: this.remoteVersion.by?.displayName,
+      lastModified: this.remoteVersion.when
+    };
+  }
+}
+
+/**
+ * Raised when a page cannot be created because its space already has a page
+ * with that title. Carries the existing page when it could be looked up.
+ */
+export class TitleCollisionError extends Error {
+  constructor(
+    public readonly spaceKey: string,
+    public readonly title: string,
+    public readonly existingPage?: PageDetails
+  ) {
+    super(
+      `A page titled '${title}' already exists in space ${spaceKey}` +
+      (existingPage ? ` (page ${existingPage.id}, ${TitleCollisionError.location(existingPage)})` : '')
+    );
+    this.name = 'TitleCollisionError';
+  }
+
+  private static location(page: PageDetails): string {
+    const parent = page.ancestors[page.ancestors.length - 1];
+    return parent ? `below '${parent.title}'` : 'at the top level';
+  }
+
+  toJSON() {
+    const parent = this.existingPage?.ancestors[this.existingPage.ancestors.length - 1];
+    return {
+      spaceKey: this.spaceKey,
+      title: this.title,
+      existingPageId: this.existingPage?.id,
+      existingParentId: parent?.id,
+      existingParentTitle: parent?.title
+    };
+  }
+}
+
 export class ConfluenceClient {
   private client: AxiosInstance;
+  private baseUrl: string;
   
-  constructor() {
+  /**
+   * @param connection - Instance and credentials to use; the environment
+   *   settings when omitted
+   */
+  constructor(connection?: ConfluenceConnection) {
     const config = getConfig();
+    const target = connection || config;
+    this.baseUrl = target.baseUrl.replace(/\/+$/, '');
     
     this.client = axios.create({
-      baseURL: `${config.baseUrl}/rest/api`,
-      auth: {
-        username: config.username,
-        password: config.apiToken
-      },
+      baseURL: `${this.baseUrl}/rest/api`,
       headers: {
-        'Content-Type': 'application/json'
-      }
+        'Content-Type': 'application/json',
+        ...authHeaders(target)
+      },
+      timeout: config.requestTimeoutMs
+    });
+
+    applyRetryPolicy(this.client, {
+      maxRetries: config.maxRetries,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: MAX_RETRY_DELAY_MS,
+      maxRequestsPerSecond: config.maxRequestsPerSecond
     });
   }
   
-  async listSpaces(): Promise<Space[]> {
-    const response = await this.client.get('/space', {
+  /**
+   * Fetch a single page of spaces. Pass the returned `nextCursor` back in to
+   * continue where the previous call stopped.
+   */
+  async listSpacesPage(options: PageRequestOptions = {}): Promise<PagedResult<Space>> {
+    return this.fetchPage('/space', {
+      expand: 'description.plain'
+    }, this.mapSpace, options);
+  }
+
+  /**
+   * Iterate over every space visible to the user, following `_links.next`
+   * until Confluence reports no further results.
+   */
+  listSpaces(): AsyncGenerator<Space> {
+    return this.paginate('/space', {
+      expand: 'description.plain'
+    }, this.mapSpace);
+  }
+
+  /**
+   * Fetch a single page of pages in a space. Pass the returned `nextCursor`
+   * back in to continue where the previous call stopped.
+   */
+  async listPagesPage(spaceKey: string, options: PageRequestOptions = {}): Promise<PagedResult<Page>> {
+    return this.fetchPage('/content', {
+      spaceKey,
+      type: 'page',
+      expand: 'version,space'
+    }, this.mapPage, options);
+  }
+
+  /**
+   * Iterate over every page in a space, following `_links.next` until
+   * Confluence reports no further results.
+   */
+  listPages(spaceKey: string): AsyncGenerator<Page> {
+    return this.paginate('/content', {
+      spaceKey,
+      type: 'page',
+      expand: 'version,space'
+    }, this.mapPage);
+  }
+
+  /**
+   * Iterate over the direct child pages of a page, in their Confluence order.
+   */
+  listChildPages(pageId: string): AsyncGenerator<Page> {
+    return this.paginate(`/content/${pageId}/child/page`, {
+      expand: 'version,space'
+    }, this.mapPage);
+  }
+
+  /**
+   * ID of the page a space opens with, the root of its page tree.
+   */
+  async getSpaceHomepageId(spaceKey: string): Promise<string> {
+    const response = await this.client.get(`/space/${spaceKey}`, {
       params: {
-        limit: 100,
-        expand: 'description.plain'
+        expand: 'homepage'
       }
     });
-    
-    return response.data.results.map((space: any) => ({
-      id: space.id,
-      key: space.key,
-      name: space.name
-    }));
+
+    const homepageId = response.data.homepage?.id;
+    if (!homepageId) {
+      throw new Error(`Space '${spaceKey}' has no homepage`);
+    }
+    return homepageId;
+  }
+
+  /**
+   * Run a CQL query and return a single page of matching content with
+   * highlighted excerpts.
+   */
+  async search(cql: string, options: PageRequestOptions = {}): Promise<PagedResult<SearchResult>> {
+    return this.fetchPage('/search', {
+      cql,
+      excerpt: 'highlight',
+      expand: 'content.version,content.space'
+    }, this.mapSearchResult, options);
   }
   
-  async listPages(spaceKey: string): Promise<Page[]> {
+  async getPage(pageId: string): Promise<PageDetails> {
+    const response = await this.client.get(`/content/${pageId}`, {
+      params: {
+        expand: PAGE_DETAILS_EXPAND
+      }
+    });
+
+    return this.mapPageDetails(response.data);
+  }
+
+  async getPageVersion(pageId: string): Promise<PageVersion> {
+    const response = await this.client.get(`/content/${pageId}`, {
+      params: {
+        expand: 'version'
+      }
+    });
+
+    return response.data.version;
+  }
+
+  /**
+   * Look up a page by its exact title. Titles are unique within a space, so
+   * there is at most one match.
+   */
+  async findPageByTitle(spaceKey: string, title: string): Promise<PageDetails | null> {
     const response = await this.client.get('/content', {
       params: {
         spaceKey,
+        title,
         type: 'page',
-        limit: 100,
-        expand: 'version'
+        expand: PAGE_DETAILS_EXPAND
       }
     });
-    
-    return response.data.results.map((page: any) => ({
-      id: page.id,
-      title: page.title,
-      spaceKey: page.space.key,
-      version: page.version
-    }));
+
+    const [page] = response.data.results;
+    return page ? this.mapPageDetails(page) : null;
   }
   
   async createPage(spaceKey: string, title: string, content: string, parentPageId?: string): Promise<Page> {
@@ -85,7 +317,16 @@ export class ConfluenceClient {
       pageData.ancestors = [{ id: parentPageId }];
     }
 
-    const response = await this.client.post('/content', pageData);
+    let response;
+    try {
+      response = await this.client.post('/content', pageData);
+    } catch (error: any) {
+      // Confluence answers a duplicate title with a plain 400
+      if (error.response?.status === 400 && /already exists/i.test(error.response.data?.message || '')) {
+        throw new TitleCollisionError(spaceKey, title, await this.findPageByTitle(spaceKey, title) ?? undefined);
+      }
+      throw error;
+    }
 
     return {
       id: response.data.id,
@@ -95,7 +336,22 @@ export class ConfluenceClient {
     };
   }
   
-  async updatePage(pageId: string, title: string, content: string, version: number, parentPageId?: string): Promise<Page> {
+  /**
+   * Update a page. `version` is the version the caller based its edit on;
+   * when omitted the current version is read first. Confluence rejects the
+   * write with a 409 when the page has moved on, which surfaces here as a
+   * VersionConflictError carrying the remote version details.
+   */
+  async updatePage(
+    pageId: string,
+    title: string,
+    content: string,
+    version?: number,
+    parentPageId?: string,
+    versionOptions: VersionOptions = {}
+  ): Promise<Page> {
+    const baseVersion = version ?? (await this.getPageVersion(pageId)).number;
+
     const pageData: any = {
       type: 'page',
       title,
@@ -106,7 +362,9 @@ export class ConfluenceClient {
         }
       },
       version: {
-        number: version + 1
+        number: baseVersion + 1,
+        message: versionOptions.message,
+        minorEdit: versionOptions.minorEdit ?? false
       }
     };
 
@@ -115,7 +373,15 @@ export class ConfluenceClient {
       pageData.ancestors = [{ id: parentPageId }];
     }
 
-    const response = await this.client.put(`/content/${pageId}`, pageData);
+    let response;
+    try {
+      response = await this.client.put(`/content/${pageId}`, pageData);
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        throw new VersionConflictError(pageId, baseVersion, await this.getPageVersion(pageId));
+      }
+      throw error;
+    }
 
     return {
       id: response.data.id,
@@ -125,7 +391,278 @@ export class ConfluenceClient {
     };
   }
   
+  /**
+   * List the versions of a page, newest first.
+   */
+  async getPageHistory(pageId: string, options: PageRequestOptions = {}): Promise<PagedResult<PageVersion>> {
+    return this.fetchPage(`/content/${pageId}/version`, {}, this.mapVersion, options);
+  }
+
+  /**
+   * Read a page as it was at an earlier version.
+   */
+  async getPageAtVersion(pageId: string, version: number): Promise<PageDetails> {
+    const response = await this.client.get(`/content/${pageId}`, {
+      params: {
+        status: 'historical',
+        version,
+        expand: PAGE_DETAILS_EXPAND
+      }
+    });
+
+    return this.mapPageDetails(response.data);
+  }
+
+  /**
+   * Restore the title and body of an earlier version by writing them as a
+   * new version. Attachments are not part of a page version and stay as
+   * they are.
+   */
+  async restoreVersion(pageId: string, version: number, message?: string): Promise<Page> {
+    const historical = await this.getPageAtVersion(pageId, version);
+    const current = await this.getPageVersion(pageId);
+
+    return this.updatePage(pageId, historical.title, historical.body, current.number, undefined, {
+      message: message || `Restored version ${version}`
+    });
+  }
+
+  /**
+   * Move a page, with its children, under a new parent or next to a sibling.
+   * The body is left as it is.
+   */
+  async movePage(pageId: string, targetPageId: string, position: MovePosition = 'append'): Promise<PageDetails> {
+    await this.client.put(`/content/${pageId}/move/${position}/${targetPageId}`);
+    return this.getPage(pageId);
+  }
+
+  /**
+   * Change only the title of a page, resending its current body.
+   */
+  async renamePage(pageId: string, title: string, version?: number): Promise<Page> {
+    const page = await this.getPage(pageId);
+    return this.updatePage(pageId, title, page.body, version ?? page.version.number);
+  }
+
   async deletePage(pageId: string): Promise<void> {
     await this.client.delete(`/content/${pageId}`);
   }
-}
\ No newline at end of file
+
+  async getLabels(pageId: string): Promise<string[]> {
+    const labels: string[] = [];
+    for await (const label of this.paginate(`/content/${pageId}/label`, {}, (label: any) => label.name as string)) {
+      labels.push(label);
+    }
+    return labels;
+  }
+
+  async addLabels(pageId: string, labels: string[]): Promise<void> {
+    if (labels.length === 0) {
+      return;
+    }
+
+    await this.client.post(`/content/${pageId}/label`, labels.map(name => ({
+      prefix: 'global',
+      name
+    })));
+  }
+
+  async removeLabels(pageId: string, labels: string[]): Promise<void> {
+    for (const name of labels) {
+      await this.client.delete(`/content/${pageId}/label`, {
+        params: { name }
+      });
+    }
+  }
+
+  /**
+   * Iterate over every attachment on a page.
+   */
+  listAttachments(pageId: string): AsyncGenerator<Attachment> {
+    return this.paginate(`/content/${pageId}/child/attachment`, {
+      expand: 'version'
+    }, this.mapAttachment);
+  }
+
+  async findAttachment(pageId: string, filename: string): Promise<Attachment | null> {
+    const response = await this.client.get(`/content/${pageId}/child/attachment`, {
+      params: {
+        filename,
+        expand: 'version'
+      }
+    });
+
+    const [attachment] = response.data.results;
+    return attachment ? this.mapAttachment(attachment) : null;
+  }
+
+  /**
+   * Upload a file to a page. When the page already has an attachment with the
+   * same filename a new version of it is posted instead, so re-publishing does
+   * not fail or pile up duplicates.
+   */
+  async uploadOrUpdateAttachment(
+    pageId: string,
+    filename: string,
+    data: Buffer,
+    contentType: string = 'application/octet-stream'
+  ): Promise<AttachmentUpload> {
+    const existing = await this.findAttachment(pageId, filename);
+
+    const formData = new FormData();
+    formData.append('file', data, { filename, contentType });
+    formData.append('minorEdit', 'true');
+
+    const url = existing
+      ? `/content/${pageId}/child/attachment/${existing.id}/data`
+      : `/content/${pageId}/child/attachment`;
+
+    // Send a buffer rather than the form stream so that a retry can resend it
+    const response = await this.client.post(url, formData.getBuffer(), {
+      headers: {
+        'X-Atlassian-Token': 'no-check',
+        ...formData.getHeaders()
+      }
+    });
+
+    // Creating returns a result list, updating returns the attachment itself
+    const result = response.data.results ? response.data.results[0] : response.data;
+
+    return {
+      attachment: this.mapAttachment(result),
+      action: existing ? 'updated' : 'created'
+    };
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<void> {
+    await this.client.delete(`/content/${attachmentId}`);
+  }
+
+  async downloadAttachment(attachment: Attachment): Promise<Buffer> {
+    if (!attachment.downloadLink) {
+      throw new Error(`Attachment ${attachment.filename} has no download link`);
+    }
+
+    // Download links are relative to the Confluence context path, not /rest/api
+    const response = await this.client.get(attachment.downloadLink, {
+      baseURL: this.baseUrl,
+      responseType: 'arraybuffer'
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  private async fetchPage<T>(
+    path: string,
+    params: Record<string, string>,
+    map: (item: any) => T,
+    options: PageRequestOptions
+  ): Promise<PagedResult<T>> {
+    // The cursor is the `_links.next` value of the previous response, which
+    // already carries the original query parameters, the limit and the start offset.
+    const response = options.cursor
+      ? await this.client.get(this.toApiPath(options.cursor))
+      : await this.client.get(path, {
+          params: { ...params, limit: options.limit || DEFAULT_PAGE_SIZE }
+        });
+
+    return {
+      results: response.data.results.map(map),
+      nextCursor: response.data._links?.next
+    };
+  }
+
+  private async *paginate<T>(
+    path: string,
+    params: Record<string, string>,
+    map: (item: any) => T
+  ): AsyncGenerator<T> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.fetchPage(path, params, map, { cursor });
+      yield* page.results;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * `_links.next` is relative to the Confluence context path, e.g.
+   * `/rest/api/content?start=100`, while the axios instance is already rooted
+   * at `/rest/api`. Cursors come back from tool callers, so anything that is
+   * not such a relative link (an absolute or protocol-relative URL in
+   * particular) is rejected rather than sent along with the credentials.
+   */
+  private toApiPath(link: string): string {
+    const match = link.match(/^(?:\/[\w.~-]+)*\/rest\/api(\/(?![\/\\])[^\\]*)$/);
+    if (!match) {
+      throw new Error(`Invalid pagination cursor '${link}': expected the nextCursor returned by a previous call`);
+    }
+    return match[1];
+  }
+
+  private mapSpace(space: any): Space {
+    return {
+      id: space.id,
+      key: space.key,
+      name: space.name
+    };
+  }
+
+  private mapSearchResult(result: any): SearchResult {
+    return {
+      id: result.content?.id,
+      title: result.content?.title ?? result.title,
+      spaceKey: result.content?.space?.key ?? result.resultGlobalContainer?.title,
+      // Strip the highlight markers Confluence wraps around matched terms
+      excerpt: (result.excerpt || '').replace(/@@@(end)?hl@@@/g, ''),
+      version: result.content?.version?.number,
+      lastModified: result.lastModified
+    };
+  }
+
+  private mapPage(page: any): Page {
+    return {
+      id: page.id,
+      title: page.title,
+      spaceKey: page.space?.key,
+      version: page.version
+    };
+  }
+
+  private mapVersion(version: any): PageVersion {
+    return {
+      number: version.number,
+      when: version.when,
+      message: version.message || undefined,
+      minorEdit: version.minorEdit,
+      by: version.by && {
+        displayName: version.by.displayName,
+        accountId: version.by.accountId,
+        username: version.by.username
+      }
+    };
+  }
+
+  private mapAttachment(attachment: any): Attachment {
+    return {
+      id: attachment.id,
+      filename: attachment.title,
+      mediaType: attachment.extensions?.mediaType ?? attachment.metadata?.mediaType,
+      fileSize: attachment.extensions?.fileSize,
+      version: attachment.version?.number,
+      downloadLink: attachment._links?.download
+    };
+  }
+
+  private mapPageDetails(page: any): PageDetails {
+    return {
+      ...this.mapPage(page),
+      body: page.body?.storage?.value || '',
+      ancestors: (page.ancestors || []).map((ancestor: any) => ({
+        id: ancestor.id,
+        title: ancestor.title
+      }))
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PagePublisher } from './page-publisher';
+import { MarkdownPageCache } from '../utils/cache';
+import { parseFrontMatter } from '../utils/front-matter';
+
+export const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+export const INDEX_FILES = ['index.md', 'readme.md'];
+export const IGNORED_DIRECTORIES = ['node_modules'];
+
+export interface DirectoryPublishOptions {
+  spaceKey: string;
+  parentPageId?: string;
+  labels?: string[];
+}
+
+/**
+ * What DirectoryPublisher.walk does with the pages of a folder tree. Each
+ * call returns the ID of the page that ends up as the parent of whatever is
+ * below it, or undefined when there is none.
+ */
+export interface DirectoryVisitor {
+  file(file: string, parentPageId: string | undefined): Promise<string | undefined>;
+  // A folder whose index file is missing or gave no page
+  placeholder(directory: string, parentPageId: string | undefined): Promise<string | undefined>;
+  // Markdown files below a folder that has no page; without this the walk
+  // goes on with no parent
+  orphaned?(files: string[]): void;
+}
+
+export interface FilePublishResult {
+  // Path relative to the base directory; folders end with a slash
+  path: string;
+  status: 'created' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+  title?: string;
+  pageId?: string;
+  error?: string;
+  warnings?: string[];
+}
+
+/**
+ * DirectoryPublisher mirrors a folder of Markdown files as a Confluence page
+ * tree. `index.md` or `README.md` becomes the page for its folder; folders
+ * without one get a placeholder page listing their children. Pages are
+ * created or updated through the MarkdownPageCache mapping, keyed by the path
+ * relative to the base directory.
+ */
+export class DirectoryPublisher {
+  private publisher: PagePublisher;
+  private cache: MarkdownPageCache;
+  private baseDir: string;
+
+  constructor(baseDir: string, publisher: PagePublisher = new PagePublisher(), cache: MarkdownPageCache = new MarkdownPageCache()) {
+    this.baseDir = path.resolve(baseDir);
+    this.publisher = publisher;
+    this.cache = cache;
+  }
+
+  /**
+   * Publish every Markdown file below a directory.
+   *
+   * @param directory - Absolute path of the directory to publish
+   * @param options - Target space, parent page for the top level and extra labels
+   * @returns One result per file or placeholder folder page
+   */
+  async publish(directory: string, options: DirectoryPublishOptions): Promise<FilePublishResult[]> {
+    const results: FilePublishResult[] = [];
+    await DirectoryPublisher.walk(path.resolve(directory), options.parentPageId, {
+      file: (file, parentPageId) => this.publishFile(file, parentPageId, options, results),
+      placeholder: (folder, parentPageId) => this.publishPlaceholder(folder, parentPageId, options, results),
+      orphaned: files => {
+        for (const file of files) {
+          results.push({ path: this.relativePath(file), status: 'failed', error: 'Folder page could not be published' });
+        }
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Walk a folder tree in publishing order: a folder's page first, then its
+   * files, then its subfolders. The page of `index.md` or `README.md` is the
+   * folder's page; other folders get a placeholder, except the top one,
+   * whose files go straight below `parentPageId`.
+   *
+   * @param directory - Absolute path of the folder to walk
+   * @param parentPageId - Page the folder goes below
+   * @param visitor - Publishes or matches each page
+   */
+  static async walk(directory: string, parentPageId: string | undefined, visitor: DirectoryVisitor): Promise<void> {
+    await DirectoryPublisher.walkFolder(directory, parentPageId, true, visitor);
+  }
+
+  private static async walkFolder(
+    directory: string,
+    parentPageId: string | undefined,
+    isRoot: boolean,
+    visitor: DirectoryVisitor
+  ): Promise<void> {
+    const entries = (await fs.readdir(directory, { withFileTypes: true }))
+      .filter(entry => !entry.name.startsWith('.'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const files = entries
+      .filter(entry => entry.isFile() && MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map(entry => path.join(directory, entry.name));
+    const folders: string[] = [];
+    for (const entry of entries) {
+      const folder = path.join(directory, entry.name);
+      if (entry.isDirectory() && !IGNORED_DIRECTORIES.includes(entry.name) && (await DirectoryPublisher.listMarkdownFiles(folder)).length > 0) {
+        folders.push(folder);
+      }
+    }
+
+    const indexFile = INDEX_FILES
+      .map(name => files.find(file => path.basename(file).toLowerCase() === name))
+      .find(Boolean);
+
+    // The folder page becomes the parent of everything else in the folder
+    let folderPageId = indexFile
+      ? await visitor.file(indexFile, parentPageId)
+      : undefined;
+
+    if (!folderPageId && !isRoot) {
+      folderPageId = await visitor.placeholder(directory, parentPageId);
+    }
+    if (!folderPageId && isRoot) {
+      folderPageId = parentPageId;
+    }
+
+    if (!isRoot && !folderPageId && visitor.orphaned) {
+      // Without a folder page the children have nowhere to go
+      visitor.orphaned((await DirectoryPublisher.listMarkdownFiles(directory)).filter(file => file !== indexFile));
+      return;
+    }
+
+    for (const file of files.filter(file => file !== indexFile)) {
+      await visitor.file(file, folderPageId);
+    }
+
+    for (const folder of folders) {
+      await DirectoryPublisher.walkFolder(folder, folderPageId, false, visitor);
+    }
+  }
+
+  private async publishFile(
+    file: string,
+    parentPageId: string | undefined,
+    options: DirectoryPublishOptions,
+    results: FilePublishResult[]
+  ): Promise<string | undefined> {
+    const markdownPath = this.relativePath(file);
+
+    try {
+      const markdownContent = await fs.readFile(file, 'utf8');
+      const target = await this.publisher.resolveTarget(markdownContent, {
+        title: DirectoryPublisher.titleFor(markdownContent, file),
+        spaceKey: options.spaceKey,
+        parentPageId,
+        labels: options.labels
+      });
+
+      if (target.skip) {
+        results.push({ path: markdownPath, status: 'skipped' });
+        return undefined;
+      }
+
+      const result = await this.publishPage(markdownPath, markdownContent, target.title!, target.spaceKey!, target.parentPageId, target.pageId, target.labels);
+      results.push(result);
+      return result.pageId;
+    } catch (error: any) {
+      console.error(`❌ Failed to publish ${markdownPath}:`, error.message);
+      results.push({ path: markdownPath, status: 'failed', error: error.message });
+      return undefined;
+    }
+  }
+
+  private async publishPlaceholder(
+    directory: string,
+    parentPageId: string | undefined,
+    options: DirectoryPublishOptions,
+    results: FilePublishResult[]
+  ): Promise<string | undefined> {
+    const markdownPath = `${this.relativePath(directory)}/`;
+    const title = DirectoryPublisher.humanize(path.basename(directory));
+
+    try {
+      // marked passes the macro through untouched when it is wrapped in a block element
+      const markdownContent = `<div><ac:structured-macro ac:name="children"></ac:structured-macro></div>\n`;
+      const result = await this.publishPage(markdownPath, markdownContent, title, options.spaceKey, parentPageId, undefined, options.labels);
+      results.push(result);
+      return result.pageId;
+    } catch (error: any) {
+      console.error(`❌ Failed to publish folder page ${markdownPath}:`, error.message);
+      results.push({ path: markdownPath, status: 'failed', title, error: error.message });
+      return undefined;
+    }
+  }
+
+  private async publishPage(
+    markdownPath: string,
+    markdownContent: string,
+    title: string,
+    spaceKey: string,
+    parentPageId: string | undefined,
+    pageId: string | undefined,
+    labels: string[] | undefined
+  ): Promise<FilePublishResult> {
+    const existingPageId = pageId || this.cache.getPageMapping(markdownPath)?.pageId;
+
+    const { page, warnings, unchanged, titleCollision } = existingPageId
+      ? await this.publisher.updatePage({ pageId: existingPageId, title, markdownContent, markdownPath, parentPageId, labels })
+      : await this.publisher.createPage({ spaceKey, title, markdownContent, markdownPath, parentPageId, labels });
+
+    const status = unchanged ? 'unchanged' : existingPageId || titleCollision?.policy === 'update' ? 'updated' : 'created';
+    console.log(`✅ ${status.charAt(0).toUpperCase() + status.slice(1)} ${markdownPath} → ${page.title} (${page.id})`);
+
+    return {
+      path: markdownPath,
+      status,
+      title: page.title,
+      pageId: page.id,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Title precedence: front matter, then the first level-one heading, then
+   * the file name (or the folder name for index files).
+   */
+  static titleFor(markdownContent: string, file: string): string {
+    const { frontMatter, body } = parseFrontMatter(markdownContent);
+    if (frontMatter.title) {
+      return frontMatter.title;
+    }
+
+    const heading = body.match(/^#\s+(.+?)\s*#*\s*$/m);
+    if (heading) {
+      return heading[1];
+    }
+
+    const name = path.basename(file, path.extname(file));
+    return INDEX_FILES.includes(path.basename(file).toLowerCase())
+      ? DirectoryPublisher.humanize(path.basename(path.dirname(file)))
+      : DirectoryPublisher.humanize(name);
+  }
+
+  static humanize(name: string): string {
+    const words = name.replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private relativePath(file: string): string {
+    return path.relative(this.baseDir, file).split(path.sep).join('/');
+  }
+
+  static async listMarkdownFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.includes(entry.name)) {
+        continue;
+      }
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await DirectoryPublisher.listMarkdownFiles(fullPath));
+      } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,179 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { resolveProjectPath } from '../utils/paths';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp'
+};
+
+export interface LocalImage {
+  // Attachment filename the image is uploaded under
+  filename: string;
+  buffer: Buffer;
+  contentType: string;
+  // Absolute path of the image on disk
+  sourcePath: string;
+}
+
+export interface ProcessedImages {
+  markdown: string;
+  images: LocalImage[];
+  warnings: string[];
+}
+
+/**
+ * ImageProcessor finds local images referenced from Markdown, reads them from
+ * disk and points the references at attachment filenames. Image paths are
+ * resolved relative to the Markdown file and must stay inside the project's
+ * base directory. Images with the same filename in different folders get
+ * distinct attachment names, since attachments are stored flat on the page.
+ */
+export class ImageProcessor {
+
+  /**
+   * Process Markdown content referencing local images.
+   *
+   * @param markdownContent - Markdown content, without front matter
+   * @param markdownPath - Path of the Markdown file, relative to the base directory
+   * @param baseDir - Project base directory; the working directory when not set
+   * @returns ProcessedImages with rewritten references and the files to upload
+   */
+  async processMarkdown(markdownContent: string, markdownPath?: string, baseDir?: string | null): Promise<ProcessedImages> {
+    const images = new Map<string, LocalImage>();
+    const warnings: string[] = [];
+
+    // Resolve every reference first; the replacement below has to be synchronous
+    const replacements = new Map<string, string>();
+    for (const src of this.findImageSources(markdownContent)) {
+      if (replacements.has(src) || !this.isLocal(src)) {
+        continue;
+      }
+
+      try {
+        const image = await this.loadImage(src, markdownPath, baseDir, images);
+        replacements.set(src, image.filename);
+      } catch (error: any) {
+        warnings.push(`Image '${src}'${markdownPath ? ` in ${markdownPath}` : ''} was not uploaded: ${error.message}`);
+      }
+    }
+
+    if (replacements.size === 0) {
+      return { markdown: markdownContent, images: [], warnings };
+    }
+
+    const markdown = this.mapOutsideCode(markdownContent, text => text
+      .replace(/(!\[[^\]]*\]\()(<[^>]*>|[^\s)]+)/g, (match, prefix, src) => {
+        const filename = replacements.get(this.unwrap(src));
+        return filename ? `${prefix}${filename}` : match;
+      })
+      .replace(/(<img\b[^>]*?\bsrc=)(["'])([^"']*)\2/gi, (match, prefix, quote, src) => {
+        const filename = replacements.get(src);
+        return filename ? `${prefix}${quote}${filename}${quote}` : match;
+      }));
+
+    console.log(`Found ${images.size} local image(s) to upload`);
+
+    return { markdown, images: Array.from(images.values()), warnings };
+  }
+
+  static contentTypeFor(filename: string): string {
+    return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+  }
+
+  private findImageSources(markdown: string): string[] {
+    const sources: string[] = [];
+    this.mapOutsideCode(markdown, text => {
+      for (const match of text.matchAll(/!\[[^\]]*\]\((<[^>]*>|[^\s)]+)/g)) {
+        sources.push(this.unwrap(match[1]));
+      }
+      for (const match of text.matchAll(/<img\b[^>]*?\bsrc=(["'])([^"']*)\1/gi)) {
+        sources.push(match[2]);
+      }
+      return text;
+    });
+    return sources;
+  }
+
+  private async loadImage(src: string, markdownPath: string | undefined, baseDir: string | null | undefined, images: Map<string, LocalImage>): Promise<LocalImage> {
+    const relativePath = decodeURI(src.split(/[?#]/)[0]);
+    const markdownDir = markdownPath ? path.dirname(markdownPath) : '.';
+    const sourcePath = resolveProjectPath(path.join(markdownDir, relativePath), baseDir);
+
+    const existing = Array.from(images.values()).find(image => image.sourcePath === sourcePath);
+    if (existing) {
+      return existing;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(sourcePath);
+    } catch (error: any) {
+      throw new Error(error.code === 'ENOENT' ? `file not found at ${sourcePath}` : error.message);
+    }
+
+    const image: LocalImage = {
+      filename: this.attachmentName(sourcePath, baseDir, images),
+      buffer,
+      contentType: ImageProcessor.contentTypeFor(sourcePath),
+      sourcePath
+    };
+    images.set(image.filename, image);
+    return image;
+  }
+
+  /**
+   * Use the plain filename where possible. When another folder already
+   * claimed it, prefix the folder path (`guides-images-arch.png`), and fall
+   * back to a counter if that is taken too.
+   */
+  private attachmentName(sourcePath: string, baseDir: string | null | undefined, images: Map<string, LocalImage>): string {
+    const filename = ImageProcessor.sanitize(path.basename(sourcePath));
+    if (!images.has(filename)) {
+      return filename;
+    }
+
+    const folder = path.relative(path.resolve(baseDir || process.cwd()), path.dirname(sourcePath));
+    const prefixed = ImageProcessor.sanitize(`${folder.split(path.sep).join('-')}-${path.basename(sourcePath)}`);
+    if (!images.has(prefixed)) {
+      return prefixed;
+    }
+
+    const extension = path.extname(prefixed);
+    let counter = 2;
+    while (images.has(`${path.basename(prefixed, extension)}-${counter}${extension}`)) {
+      counter++;
+    }
+    return `${path.basename(prefixed, extension)}-${counter}${extension}`;
+  }
+
+  // Attachment names end up in URLs and storage-format attributes. The tree
+  // export names downloaded attachments the same way, so they republish unchanged
+  static sanitize(filename: string): string {
+    return filename.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+/, '');
+  }
+
+  private isLocal(src: string): boolean {
+    return src.length > 0 && !/^[a-z][a-z0-9+.-]*:/i.test(src) && !src.startsWith('//') && !src.startsWith('#');
+  }
+
+  private unwrap(src: string): string {
+    return src.startsWith('<') && src.endsWith('>') ? src.slice(1, -1) : src;
+  }
+
+  /**
+   * Apply a transform to the Markdown outside fenced code blocks, so that
+   * image syntax shown as an example is left alone.
+   */
+  private mapOutsideCode(markdown: string, transform: (text: string) => string): string {
+    return markdown
+      .split(/(^(?:```|~~~)[\s\S]*?^(?:```|~~~)[ \t]*$)/m)
+      .map((part, index) => index % 2 === 1 ? part : transform(part))
+      .join('');
+  }
+}
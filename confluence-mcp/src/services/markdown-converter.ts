@@ -1,5 +1,21 @@
+import path from 'path';
 import { marked } from 'marked';
 import { MermaidRenderer } from './mermaid-renderer';
+import { normalizeMarkdownPath } from '../utils/paths';
+
+export interface LinkedPage {
+  title: string;
+  spaceKey: string;
+}
+
+export interface ConversionOptions {
+  // Path of the Markdown being converted, used to resolve relative links
+  markdownPath?: string;
+  // Look up the page a Markdown file was published to
+  findPage?: (markdownPath: string) => LinkedPage | undefined;
+  // Collects problems that do not stop the conversion, e.g. unresolved links
+  warnings?: string[];
+}
 
 export class MarkdownConverter {
   private mermaidRenderer: MermaidRenderer;
@@ -8,7 +24,7 @@ export class MarkdownConverter {
     this.mermaidRenderer = new MermaidRenderer();
   }
   
-  async convertToConfluence(markdown: string): Promise<string> {
+  async convertToConfluence(markdown: string, options: ConversionOptions = {}): Promise<string> {
     // Pre-process markdown for special elements
     let processedMarkdown = this.preprocessMarkdown(markdown);
 
@@ -29,7 +45,7 @@ export class MarkdownConverter {
     let html = marked(processedMarkdown);
 
     // Convert HTML to Confluence storage format with professional styling
-    let confluenceContent = this.htmlToConfluence(html);
+    let confluenceContent = this.htmlToConfluence(html, options);
 
     // Replace Mermaid placeholders with rendered images
     for (let i = 0; i < mermaidBlocks.length; i++) {
@@ -62,15 +78,17 @@ export class MarkdownConverter {
     return this.wrapInProfessionalLayout(confluenceContent);
   }
   
-  private htmlToConfluence(html: string): string {
+  private htmlToConfluence(html: string, options: ConversionOptions = {}): string {
     // This is a simplified conversion - a real implementation would be more comprehensive
     
     // Convert headings
     html = html.replace(/<h1>(.*?)<\/h1>/g, '<h1>$1</h1>');
     html = html.replace(/<h2>(.*?)<\/h2>/g, '<h2>$1</h2>');
     
-    // Convert links
-    html = html.replace(/<a href="(.*?)">(.*?)<\/a>/g, '<a href="$1">$2</a>');
+    // Convert links: relative .md links and #fragments become Confluence page links
+    const headings = this.collectHeadings(html);
+    html = html.replace(/<a href="([^"]*)"([^>]*)>([\s\S]*?)<\/a>/g, (match, href, _attrs, text) =>
+      this.convertLink(match, this.decodeHtml(href), text, headings, options));
     
     // Convert images to Confluence attachment format
     html = html.replace(/<img src="([^"]+)"[^>]*alt="([^"]*)"[^>]*>/g, (match, src, alt) => {
@@ -79,10 +97,6 @@ export class MarkdownConverter {
       return `<p style="text-align: center;"><ac:image ac:width="600"><ri:attachment ri:filename="${filename}" /></ac:image></p>`;
     });
     
-    // Convert code blocks
-    html = html.replace(/<pre><code class="language-(.*?)">([\s\S]*?)<\/code><\/pre>/g, 
-      '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">$1</ac:parameter><ac:plain-text-body><![CDATA[$2]]></ac:plain-text-body></ac:structured-macro>');
-    
     // Convert inline code
     html = html.replace(/<code>(.*?)<\/code>/g, '<code>$1</code>');
     
@@ -106,9 +120,105 @@ export class MarkdownConverter {
     // Convert horizontal rules
     html = html.replace(/<hr\s*\/?>/g, '<hr style="border: none; border-top: 1px solid #DFE1E6; margin: 24px 0;">');
 
+    // Convert code blocks last, so none of the rewrites above touch the code.
+    // marked HTML-escapes it, but CDATA is shown as written, so it is
+    // unescaped again; `]]>` has to be split across two CDATA sections
+    html = html.replace(/<pre><code class="language-(.*?)">([\s\S]*?)<\/code><\/pre>/g, (_match, language, code) =>
+      `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${language}</ac:parameter><ac:plain-text-body><![CDATA[${this.decodeHtml(code).replace(/]]>/g, ']]]]><![CDATA[>')}]]></ac:plain-text-body></ac:structured-macro>`);
+
     return html;
   }
 
+  private convertLink(original: string, href: string, text: string, headings: Map<string, string>, options: ConversionOptions): string {
+    // Leave absolute URLs (http:, mailto:, ...) and site-absolute paths alone
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('/')) {
+      return original;
+    }
+
+    const [target, fragment] = href.split('#', 2);
+
+    if (!target) {
+      if (!fragment) {
+        return original;
+      }
+
+      // Same-page anchor: map the GitHub-style slug back to the heading text Confluence anchors on
+      const heading = headings.get(fragment);
+      if (!heading) {
+        this.warnLink(href, options, `points at '#${fragment}', which matches no heading; the anchor is kept as written`);
+      }
+      return `<ac:link ac:anchor="${this.escapeAttribute(heading || fragment)}"><ac:link-body>${text}</ac:link-body></ac:link>`;
+    }
+
+    if (!/\.(md|markdown)$/i.test(target)) {
+      return original;
+    }
+
+    let decodedTarget: string;
+    try {
+      decodedTarget = decodeURI(target);
+    } catch {
+      // Malformed percent-encoding, e.g. `a%zz.md`: look the path up as written
+      this.warnLink(href, options, 'has malformed percent-encoding and was resolved as written');
+      decodedTarget = target;
+    }
+
+    const linkedPath = normalizeMarkdownPath(
+      path.posix.join(path.posix.dirname(normalizeMarkdownPath(options.markdownPath || '')), decodedTarget)
+    );
+    const page = options.findPage?.(linkedPath);
+
+    if (!page) {
+      this.warnLink(href, options, `was not converted: ${linkedPath} has not been published yet`);
+      return original;
+    }
+
+    // The headings of the other page are not known here, so its slug cannot be
+    // mapped to heading text the way same-page anchors are
+    if (fragment) {
+      this.warnLink(href, options, `keeps its anchor '#${fragment}' as written; it only works if it matches a heading on '${page.title}'`);
+    }
+
+    const anchor = fragment ? ` ac:anchor="${this.escapeAttribute(fragment)}"` : '';
+    return `<ac:link${anchor}><ri:page ri:content-title="${this.escapeAttribute(page.title)}" ri:space-key="${this.escapeAttribute(page.spaceKey)}" /><ac:link-body>${text}</ac:link-body></ac:link>`;
+  }
+
+  private warnLink(href: string, options: ConversionOptions, problem: string): void {
+    options.warnings?.push(`Link to '${href}'${options.markdownPath ? ` in ${options.markdownPath}` : ''} ${problem}`);
+  }
+
+  /**
+   * Map GitHub-style heading slugs (as used in `#fragment` links) to the
+   * heading text.
+   */
+  private collectHeadings(html: string): Map<string, string> {
+    const headings = new Map<string, string>();
+    for (const match of html.matchAll(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/g)) {
+      const text = this.decodeHtml(match[1].replace(/<[^>]+>/g, '')).trim();
+      const slug = text.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s/g, '-');
+      if (!headings.has(slug)) {
+        headings.set(slug, text);
+      }
+    }
+    return headings;
+  }
+
+  private decodeHtml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/"/g, '&quot;');
+  }
+
   private preprocessMarkdown(markdown: string): string {
     // Convert special markdown elements to custom markers for better processing
 
@@ -0,0 +1,233 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ConfluenceClient, Page, PageDetails } from './confluence-client';
+import { DirectoryPublisher } from './directory-publisher';
+import { MarkdownPageCache } from '../utils/cache';
+import { parseFrontMatter } from '../utils/front-matter';
+
+export type LinkMatch = 'pageId' | 'path' | 'title';
+
+export interface LinkOptions {
+  spaceKey?: string;
+  // Page the folder was (or would be) published under, for matching by path
+  parentPageId?: string;
+  // Save the proposed mappings instead of only reporting them
+  confirm?: boolean;
+  // Replace mappings that already point at a different page
+  relink?: boolean;
+}
+
+export interface LinkResult {
+  // Path relative to the base directory; folders end with a slash
+  path: string;
+  status: 'proposed' | 'linked' | 'already-linked' | 'conflict' | 'unmatched' | 'skipped' | 'failed';
+  title?: string;
+  matchedBy?: LinkMatch;
+  pageId?: string;
+  pageTitle?: string;
+  // Page the cache maps the file to today, when it differs from the match
+  currentPageId?: string;
+  error?: string;
+}
+
+interface MatchedPage {
+  page: Page;
+  parentPageId?: string;
+  matchedBy: LinkMatch;
+}
+
+/**
+ * PageLinker adopts pages that already exist in Confluence into the
+ * MarkdownPageCache, so that the first publish from a repository updates
+ * them instead of creating duplicates. A file is matched by the `pageId` in
+ * its front matter, then by its place in the folder below the parent page
+ * (the tree confluence_publish_directory would build), then by its title
+ * in the space. Folders are walked with DirectoryPublisher.walk, so the
+ * files, folder pages and placeholders matched are the ones a publish of the
+ * folder would write.
+ */
+export class PageLinker {
+  private client: ConfluenceClient;
+  private cache: MarkdownPageCache;
+  private baseDir: string;
+  // Child pages by parent ID, so each level is only fetched once
+  private children = new Map<string, Page[]>();
+  // Pages matched so far, to report two files claiming the same page
+  private claimed = new Map<string, string>();
+
+  constructor(baseDir: string, client: ConfluenceClient = new ConfluenceClient(), cache: MarkdownPageCache = new MarkdownPageCache()) {
+    this.baseDir = path.resolve(baseDir);
+    this.client = client;
+    this.cache = cache;
+  }
+
+  /**
+   * Match every Markdown file below a directory to an existing page.
+   *
+   * @param directory - Absolute path of the directory to link
+   * @param options - Space and parent page to match against, and whether to save
+   * @returns One result per file or folder without an index file
+   */
+  async link(directory: string, options: LinkOptions): Promise<LinkResult[]> {
+    const results: LinkResult[] = [];
+    this.children.clear();
+    this.claimed.clear();
+
+    await DirectoryPublisher.walk(path.resolve(directory), options.parentPageId, {
+      file: (file, parentPageId) => this.linkFile(file, parentPageId, options, results),
+      placeholder: (folder, parentPageId) => this.linkPlaceholder(folder, parentPageId, options, results)
+    });
+    return results;
+  }
+
+  private async linkFile(
+    file: string,
+    parentPageId: string | undefined,
+    options: LinkOptions,
+    results: LinkResult[]
+  ): Promise<string | undefined> {
+    const markdownPath = this.relativePath(file);
+
+    try {
+      const markdownContent = await fs.readFile(file, 'utf8');
+      const { frontMatter } = parseFrontMatter(markdownContent);
+      const title = DirectoryPublisher.titleFor(markdownContent, file);
+
+      if (frontMatter.skip) {
+        results.push({ path: markdownPath, status: 'skipped', title });
+        return undefined;
+      }
+
+      const match = frontMatter.pageId
+        ? await this.matchPageId(frontMatter.pageId)
+        : await this.matchTitle(title, parentPageId, frontMatter.space || options.spaceKey);
+
+      return this.record(markdownPath, title, match, options, results);
+    } catch (error: any) {
+      results.push({ path: markdownPath, status: 'failed', error: error.message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Folders without an index page were published as placeholder pages named
+   * after the folder.
+   */
+  private async linkPlaceholder(
+    directory: string,
+    parentPageId: string | undefined,
+    options: LinkOptions,
+    results: LinkResult[]
+  ): Promise<string | undefined> {
+    const markdownPath = `${this.relativePath(directory)}/`;
+    const title = DirectoryPublisher.humanize(path.basename(directory));
+
+    try {
+      const match = await this.matchTitle(title, parentPageId, options.spaceKey);
+      return this.record(markdownPath, title, match, options, results);
+    } catch (error: any) {
+      results.push({ path: markdownPath, status: 'failed', title, error: error.message });
+      return undefined;
+    }
+  }
+
+  private async matchPageId(pageId: string): Promise<MatchedPage> {
+    let page: PageDetails;
+    try {
+      page = await this.client.getPage(pageId);
+    } catch (error: any) {
+      throw new Error(error.response?.status === 404 ? `Page ${pageId} from front matter does not exist` : error.message);
+    }
+    return { page, parentPageId: page.ancestors[page.ancestors.length - 1]?.id, matchedBy: 'pageId' };
+  }
+
+  private async matchTitle(title: string, parentPageId: string | undefined, spaceKey: string | undefined): Promise<MatchedPage | null> {
+    if (parentPageId) {
+      const child = (await this.childPages(parentPageId)).find(page => this.sameTitle(page.title, title));
+      if (child) {
+        return { page: child, parentPageId, matchedBy: 'path' };
+      }
+    }
+
+    if (spaceKey) {
+      const page = await this.client.findPageByTitle(spaceKey, title);
+      if (page) {
+        return { page, parentPageId: page.ancestors[page.ancestors.length - 1]?.id, matchedBy: 'title' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Report a match and save it when confirmed. Mappings are written without
+   * a version or content hash: nothing says the file and the page agree yet,
+   * so confluence_sync reports a conflict instead of guessing a direction.
+   */
+  private record(
+    markdownPath: string,
+    title: string,
+    match: MatchedPage | null,
+    options: LinkOptions,
+    results: LinkResult[]
+  ): string | undefined {
+    if (!match) {
+      results.push({ path: markdownPath, status: 'unmatched', title });
+      return undefined;
+    }
+
+    const { page, parentPageId, matchedBy } = match;
+    const result: LinkResult = { path: markdownPath, status: 'proposed', title, matchedBy, pageId: page.id, pageTitle: page.title };
+
+    const claimedBy = this.claimed.get(page.id);
+    if (claimedBy) {
+      results.push({ ...result, status: 'conflict', error: `Page is already matched to ${claimedBy}` });
+      return undefined;
+    }
+    this.claimed.set(page.id, markdownPath);
+
+    const current = this.cache.getPageMapping(markdownPath);
+    if (current?.pageId === page.id) {
+      results.push({ ...result, status: 'already-linked' });
+      return page.id;
+    }
+    if (current && !options.relink) {
+      results.push({ ...result, status: 'conflict', currentPageId: current.pageId, error: 'File is already mapped to another page; pass relink to replace the mapping' });
+      return current.pageId;
+    }
+
+    if (options.confirm) {
+      this.cache.setPageMapping(markdownPath, {
+        markdownPath,
+        pageId: page.id,
+        spaceKey: page.spaceKey,
+        title: page.title,
+        lastUpdated: new Date().toISOString(),
+        parentPageId
+      });
+    }
+
+    results.push({ ...result, status: options.confirm ? 'linked' : 'proposed', currentPageId: current?.pageId });
+    return page.id;
+  }
+
+  private async childPages(pageId: string): Promise<Page[]> {
+    let pages = this.children.get(pageId);
+    if (!pages) {
+      pages = [];
+      for await (const page of this.client.listChildPages(pageId)) {
+        pages.push(page);
+      }
+      this.children.set(pageId, pages);
+    }
+    return pages;
+  }
+
+  private sameTitle(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  private relativePath(file: string): string {
+    return path.relative(this.baseDir, file).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,753 @@
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { Attachment, ConfluenceClient, MovePosition, Page, PageDetails, TitleCollisionError, VersionConflictError } from './confluence-client';
+import { MarkdownConverter } from './markdown-converter';
+import { DiagramProcessor, ProcessedDiagram } from './diagram-processor';
+import { ImageProcessor, LocalImage } from './image-processor';
+import { MarkdownPageCache, PageMapping, hashBuffer, hashContent } from '../utils/cache';
+import { parseFrontMatter } from '../utils/front-matter';
+import { getConfig } from '../utils/config';
+import { ProjectConfigManager, TitleCollisionPolicy } from '../utils/project-config';
+import { normalizeMarkdownPath } from '../utils/paths';
+
+export interface RenderedPage {
+  storage: string;
+  diagrams: ProcessedDiagram[];
+  // Local images referenced from the Markdown, uploaded as attachments
+  images: LocalImage[];
+  warnings: string[];
+}
+
+export interface AttachmentResult {
+  filename: string;
+  status: 'created' | 'updated' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+export interface LabelChanges {
+  added: string[];
+  removed: string[];
+  error?: string;
+}
+
+// How a title clash on create was resolved
+export interface TitleCollision {
+  policy: TitleCollisionPolicy;
+  // Page that already had the title
+  existingPageId: string;
+  // Title asked for, when the page was created under a different one
+  requestedTitle?: string;
+  // Page that already had the renamed title under the same parent, e.g. from
+  // an earlier publish, and was updated instead of creating another one
+  updatedPageId?: string;
+}
+
+export interface PublishResult {
+  page: Page;
+  attachments: AttachmentResult[];
+  labels: LabelChanges;
+  warnings: string[];
+  // Generated diagram attachments removed because the page no longer uses them
+  deletedAttachments: string[];
+  // True when the page already matched and no new version was written
+  unchanged: boolean;
+  titleCollision?: TitleCollision;
+}
+
+export interface PreviewAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  source: 'diagram' | 'image';
+}
+
+export interface PagePreview {
+  storage: string;
+  attachments: PreviewAttachment[];
+  warnings: string[];
+  // The page this content would replace, when it already exists
+  existingPage?: {
+    id: string;
+    title: string;
+    version: number;
+  };
+  // Unified diff of the current page body against the new storage format
+  diff?: string;
+}
+
+export interface PreviewPageInput {
+  markdownContent: string;
+  markdownPath?: string;
+  title?: string;
+  spaceKey?: string;
+  pageId?: string;
+}
+
+export interface PublishTarget {
+  title?: string;
+  spaceKey?: string;
+  parentPageId?: string;
+  pageId?: string;
+  labels?: string[];
+  skip: boolean;
+}
+
+export interface CreatePageInput {
+  spaceKey: string;
+  title: string;
+  markdownContent: string;
+  markdownPath?: string;
+  parentPageId?: string;
+  labels?: string[];
+  // Overrides the policy from the project config
+  titleCollision?: TitleCollisionPolicy;
+}
+
+export interface UpdatePageInput {
+  pageId: string;
+  title: string;
+  markdownContent: string;
+  markdownPath?: string;
+  // Version the edit is based on; the current version is used when omitted
+  version?: number;
+  // Refuse the write unless the page is still at exactly this version
+  expectedVersion?: number;
+  parentPageId?: string;
+  // Remove diagram attachments the new content no longer references (default true)
+  cleanupAttachments?: boolean;
+  // Labels to keep on the page; omit to leave labels untouched
+  labels?: string[];
+  // Write a new version even when the rendered page has not changed
+  force?: boolean;
+  // Version comment, e.g. the commit subject the Markdown comes from
+  message?: string;
+  // Skip notifying watchers
+  minorEdit?: boolean;
+}
+
+export interface UpsertPageInput extends CreatePageInput {
+  // Page to update regardless of cache and title, e.g. from front matter
+  pageId?: string;
+  force?: boolean;
+  message?: string;
+  minorEdit?: boolean;
+}
+
+// How publish found the page it updated, or `new` when it created one
+export type UpsertMatch = 'pageId' | 'cache' | 'title' | 'new';
+
+export interface UpsertResult extends PublishResult {
+  action: 'created' | 'updated';
+  matchedBy: UpsertMatch;
+}
+
+/**
+ * PagePublisher runs the Markdown-to-Confluence publish flow shared by the
+ * create, update and sync tools: render diagrams, convert to storage format,
+ * write the page, upload diagram and image attachments and record the cache
+ * mapping.
+ */
+export class PagePublisher {
+  private client: ConfluenceClient;
+  private cache: MarkdownPageCache;
+  private converter: MarkdownConverter;
+  private diagramProcessor: DiagramProcessor;
+  private imageProcessor: ImageProcessor;
+  private managedByLabel: string;
+  private titleCollision: TitleCollisionPolicy;
+  private baseDir: string | null;
+
+  constructor(
+    client: ConfluenceClient = new ConfluenceClient(),
+    cache: MarkdownPageCache = new MarkdownPageCache(),
+    projectConfig: ProjectConfigManager = new ProjectConfigManager()
+  ) {
+    this.client = client;
+    this.cache = cache;
+    this.converter = new MarkdownConverter();
+    this.diagramProcessor = new DiagramProcessor();
+    this.imageProcessor = new ImageProcessor();
+
+    this.managedByLabel = projectConfig.getConfig()?.managedByLabel ?? getConfig().managedByLabel ?? '';
+    this.titleCollision = projectConfig.getConfig()?.titleCollision ?? 'fail';
+    this.baseDir = projectConfig.getBaseDir();
+  }
+
+  /**
+   * Work out where a Markdown file should be published. YAML front matter in
+   * the file wins over the tool arguments, which win over the defaults from
+   * the project config. A `parent` given by title is looked up in the space.
+   */
+  async resolveTarget(markdownContent: string, args: Partial<PublishTarget>, defaults: Partial<PublishTarget> = {}): Promise<PublishTarget> {
+    const { frontMatter } = parseFrontMatter(markdownContent);
+
+    const spaceKey = frontMatter.space || args.spaceKey || defaults.spaceKey;
+
+    let parentPageId = args.parentPageId || defaults.parentPageId;
+    if (frontMatter.parent) {
+      parentPageId = /^\d+$/.test(frontMatter.parent)
+        ? frontMatter.parent
+        : await this.findParentId(frontMatter.parent, spaceKey);
+    }
+
+    return {
+      title: frontMatter.title || args.title,
+      spaceKey,
+      parentPageId,
+      pageId: frontMatter.pageId || args.pageId,
+      labels: frontMatter.labels || args.labels,
+      skip: frontMatter.skip
+    };
+  }
+
+  /**
+   * Render Markdown to Confluence storage format, converting Mermaid
+   * diagrams to PNG attachments and collecting local images along the way.
+   * Front matter is not part of the page body and is dropped.
+   */
+  async render(markdownContent: string, markdownPath?: string): Promise<RenderedPage> {
+    const { body } = parseFrontMatter(markdownContent);
+
+    // Point local images at attachments before diagrams add their own image references
+    const images = await this.imageProcessor.processMarkdown(body, markdownPath, this.baseDir);
+
+    // Process Mermaid diagrams (extract and convert to PNG)
+    const processed = await this.diagramProcessor.processMarkdown(images.markdown, markdownPath);
+
+    console.log(`Processed ${processed.diagrams.length} diagram(s) from Markdown`);
+
+    // Convert markdown to Confluence format (now with image references instead of Mermaid)
+    const warnings: string[] = [...images.warnings];
+    const storage = await this.converter.convertToConfluence(processed.markdown, {
+      markdownPath,
+      findPage: linkedPath => this.cache.getPageMapping(linkedPath),
+      warnings
+    });
+
+    return { storage, diagrams: processed.diagrams, images: images.images, warnings };
+  }
+
+  /**
+   * Create a page. Titles are unique within a space, so when the title is
+   * taken the title collision policy decides what happens instead.
+   */
+  async createPage(input: CreatePageInput): Promise<PublishResult> {
+    const existing = await this.client.findPageByTitle(input.spaceKey, input.title);
+    return existing
+      ? this.resolveTitleCollision(input, existing)
+      : this.createNewPage(input);
+  }
+
+  private async createNewPage(input: CreatePageInput): Promise<PublishResult> {
+    const rendered = await this.render(input.markdownContent, input.markdownPath);
+
+    // Create the page (with parent if specified)
+    const page = await this.client.createPage(input.spaceKey, input.title, rendered.storage, input.parentPageId);
+
+    const attachments = await this.uploadAttachments(page.id, rendered, {});
+    const labels = await this.syncLabels(page.id, input.labels, input.markdownPath);
+    this.recordMapping(input.markdownPath, page, input.markdownContent, input.labels, {
+      storageHash: hashContent(rendered.storage),
+      parentPageId: input.parentPageId,
+      attachmentHashes: this.attachmentHashes(rendered, attachments, {})
+    });
+
+    return { page, attachments, labels, warnings: rendered.warnings, deletedAttachments: [], unchanged: false };
+  }
+
+  private async resolveTitleCollision(input: CreatePageInput, existing: PageDetails): Promise<PublishResult> {
+    const policy = input.titleCollision || this.titleCollision;
+
+    if (policy === 'fail') {
+      throw new TitleCollisionError(input.spaceKey, input.title, existing);
+    }
+
+    if (policy === 'update') {
+      // Only the content is replaced; the page stays under its own parent
+      const result = await this.updatePage({
+        pageId: existing.id,
+        title: input.title,
+        markdownContent: input.markdownContent,
+        markdownPath: input.markdownPath,
+        labels: input.labels
+      });
+      return { ...result, titleCollision: { policy, existingPageId: existing.id } };
+    }
+
+    const title = await this.affixTitle(input, policy, existing);
+    const collision: TitleCollision = { policy, existingPageId: existing.id, requestedTitle: input.title };
+    const taken = await this.client.findPageByTitle(input.spaceKey, title);
+
+    if (taken) {
+      // The renamed page from an earlier publish of the same content: republish it
+      const parent = taken.ancestors[taken.ancestors.length - 1];
+      if (parent?.id !== input.parentPageId) {
+        throw new TitleCollisionError(input.spaceKey, title, taken);
+      }
+
+      const result = await this.updatePage({
+        pageId: taken.id,
+        title,
+        markdownContent: input.markdownContent,
+        markdownPath: input.markdownPath,
+        labels: input.labels
+      });
+      return { ...result, titleCollision: { ...collision, updatedPageId: taken.id } };
+    }
+
+    const result = await this.createNewPage({ ...input, title });
+    return { ...result, titleCollision: collision };
+  }
+
+  /**
+   * Tell a page apart from the one that already has its title, e.g.
+   * `Setup (Backend)` for the parent page `Backend` or `api - Setup` for a
+   * file in the `api` folder.
+   */
+  private async affixTitle(input: CreatePageInput, policy: TitleCollisionPolicy, existing: PageDetails): Promise<string> {
+    const [position, source] = policy.split('-');
+    const affix = source === 'parent'
+      ? input.parentPageId && (await this.client.getPage(input.parentPageId)).title
+      : folderName(input.markdownPath);
+
+    if (!affix) {
+      throw new Error(
+        `${new TitleCollisionError(input.spaceKey, input.title, existing).message}. ` +
+        `Policy '${policy}' needs ${source === 'parent' ? 'a parent page' : 'a Markdown path inside a folder'} to rename the new page`
+      );
+    }
+
+    return position === 'prefix' ? `${affix} - ${input.title}` : `${input.title} (${affix})`;
+  }
+
+  async updatePage(input: UpdatePageInput): Promise<PublishResult> {
+    if (input.expectedVersion !== undefined) {
+      const current = await this.client.getPageVersion(input.pageId);
+      if (current.number !== input.expectedVersion) {
+        throw new VersionConflictError(input.pageId, input.expectedVersion, current);
+      }
+    }
+
+    const rendered = await this.render(input.markdownContent, input.markdownPath);
+    const storageHash = hashContent(rendered.storage);
+
+    // Hashes from the last publish only describe this page if the mapping points at it
+    const mapping = input.markdownPath ? this.cache.getPageMapping(input.markdownPath) : undefined;
+    const previous = mapping?.pageId === input.pageId ? mapping : undefined;
+    const previousHashes = previous?.attachmentHashes || {};
+
+    // Skip the write when nothing changed, so bulk republishes neither add a
+    // version nor notify watchers
+    const unchangedPage = input.force ? null : await this.findUnchangedPage(input, storageHash, previous);
+
+    // Update the page (with parent if specified). Basing the write on the
+    // expected version lets Confluence reject it with a 409 if the page moved
+    // on after the check above.
+    const page = unchangedPage
+      || await this.client.updatePage(input.pageId, input.title, rendered.storage, input.version ?? input.expectedVersion, input.parentPageId, {
+        message: input.message,
+        minorEdit: input.minorEdit
+      });
+
+    if (unchangedPage) {
+      console.log(`⏭️  Page ${page.id} is unchanged, no new version written`);
+    }
+
+    const attachments = await this.uploadAttachments(page.id, rendered, input.force ? {} : previousHashes);
+    const deletedAttachments = unchangedPage || input.cleanupAttachments === false
+      ? []
+      : await this.deleteOrphanedAttachments(page.id, rendered.storage, previousHashes);
+    const labels = await this.syncLabels(page.id, input.labels, input.markdownPath);
+    this.recordMapping(input.markdownPath, page, input.markdownContent, input.labels, {
+      storageHash,
+      parentPageId: input.parentPageId ?? previous?.parentPageId,
+      attachmentHashes: this.attachmentHashes(rendered, attachments, previousHashes)
+    });
+
+    return { page, attachments, labels, warnings: rendered.warnings, deletedAttachments, unchanged: !!unchangedPage };
+  }
+
+  /**
+   * Create or update a page, whichever is needed. The page is looked up by
+   * the given pageId, then the cache mapping for markdownPath, then by title
+   * under the parent, so calling this again with the same Markdown never
+   * creates a second page.
+   */
+  async publish(input: UpsertPageInput): Promise<UpsertResult> {
+    const existing = await this.findExistingPage(input);
+
+    if (!existing) {
+      // A title taken elsewhere in the space is left to the title collision policy
+      const result = await this.createPage(input);
+      return result.titleCollision?.policy === 'update'
+        ? { ...result, action: 'updated', matchedBy: 'title' }
+        : { ...result, action: 'created', matchedBy: 'new' };
+    }
+
+    const result = await this.updatePage({
+      pageId: existing.pageId,
+      title: input.title,
+      markdownContent: input.markdownContent,
+      markdownPath: input.markdownPath,
+      parentPageId: input.parentPageId,
+      labels: input.labels,
+      force: input.force,
+      message: input.message,
+      minorEdit: input.minorEdit
+    });
+    return { ...result, action: 'updated', matchedBy: existing.matchedBy };
+  }
+
+  private async findExistingPage(input: UpsertPageInput): Promise<{ pageId: string; matchedBy: UpsertMatch } | null> {
+    if (input.pageId) {
+      return { pageId: input.pageId, matchedBy: 'pageId' };
+    }
+
+    const mapping = input.markdownPath ? this.cache.getPageMapping(input.markdownPath) : undefined;
+    if (mapping) {
+      try {
+        await this.client.getPageVersion(mapping.pageId);
+        return { pageId: mapping.pageId, matchedBy: 'cache' };
+      } catch (error: any) {
+        if (error.response?.status !== 404) {
+          throw error;
+        }
+        // Deleted in Confluence since the last publish; fall back to the title
+        console.warn(`⚠️  Page ${mapping.pageId} mapped to ${input.markdownPath} no longer exists`);
+      }
+    }
+
+    const page = await this.client.findPageByTitle(input.spaceKey, input.title);
+    if (!page) {
+      return null;
+    }
+
+    // Only a page under the same parent is the one this Markdown was meant for
+    const parent = page.ancestors[page.ancestors.length - 1];
+    if (input.parentPageId && parent?.id !== input.parentPageId) {
+      return null;
+    }
+
+    return { pageId: page.id, matchedBy: 'title' };
+  }
+
+  /**
+   * Return the page as recorded in the mapping when the rendered body, title
+   * and parent match the last publish and nobody edited the page since.
+   */
+  private async findUnchangedPage(input: UpdatePageInput, storageHash: string, previous?: PageMapping): Promise<Page | null> {
+    if (!previous?.storageHash || previous.storageHash !== storageHash || previous.title !== input.title) {
+      return null;
+    }
+
+    if (input.parentPageId !== undefined && input.parentPageId !== previous.parentPageId) {
+      return null;
+    }
+
+    const current = await this.client.getPageVersion(input.pageId);
+    if (current.number !== previous.version) {
+      return null;
+    }
+
+    return { id: previous.pageId, title: previous.title, spaceKey: previous.spaceKey, version: current };
+  }
+
+  /**
+   * Render a page exactly as createPage or updatePage would, without writing
+   * anything to Confluence. The existing page is found by pageId, the cache
+   * mapping for markdownPath, or by title in the space.
+   */
+  async preview(input: PreviewPageInput): Promise<PagePreview> {
+    const rendered = await this.render(input.markdownContent, input.markdownPath);
+
+    const attachments: PreviewAttachment[] = [
+      ...rendered.diagrams.map(diagram => ({
+        filename: diagram.filename,
+        contentType: 'image/png',
+        size: diagram.buffer.length,
+        source: 'diagram' as const
+      })),
+      ...rendered.images.map(image => ({
+        filename: image.filename,
+        contentType: image.contentType,
+        size: image.buffer.length,
+        source: 'image' as const
+      }))
+    ];
+
+    const pageId = input.pageId || (input.markdownPath ? this.cache.getPageMapping(input.markdownPath)?.pageId : undefined);
+    const existing = pageId
+      ? await this.client.getPage(pageId)
+      : input.title && input.spaceKey
+        ? await this.client.findPageByTitle(input.spaceKey, input.title)
+        : null;
+
+    if (!existing) {
+      return { storage: rendered.storage, attachments, warnings: rendered.warnings };
+    }
+
+    return {
+      storage: rendered.storage,
+      attachments,
+      warnings: rendered.warnings,
+      existingPage: { id: existing.id, title: existing.title, version: existing.version.number },
+      diff: createTwoFilesPatch(
+        `confluence/${existing.title} (v${existing.version.number})`,
+        input.markdownPath || 'preview',
+        splitTags(existing.body),
+        splitTags(rendered.storage)
+      )
+    };
+  }
+
+  /**
+   * Move a page and point the cache mappings for it at the new parent, so the
+   * next publish does not move it back.
+   */
+  async movePage(pageId: string, targetPageId: string, position: MovePosition = 'append'): Promise<PageDetails> {
+    const before = await this.client.getPageVersion(pageId);
+    const page = await this.client.movePage(pageId, targetPageId, position);
+    const parentPageId = page.ancestors[page.ancestors.length - 1]?.id;
+
+    this.updateMappings(pageId, before.number, page, { parentPageId });
+    return page;
+  }
+
+  /**
+   * Rename a page without touching its body, keeping the cache mappings in
+   * step with the new title.
+   */
+  async renamePage(pageId: string, title: string, version?: number): Promise<Page> {
+    const before = version ?? (await this.client.getPageVersion(pageId)).number;
+    const page = await this.client.renamePage(pageId, title, before);
+
+    this.updateMappings(pageId, before, page, {});
+    return page;
+  }
+
+  /**
+   * Apply a change made through the tools to every mapping for a page. The
+   * stored version only moves forward when it was current before the change,
+   * so edits made in Confluence in the meantime are still noticed by sync.
+   */
+  private updateMappings(pageId: string, versionBefore: number, page: Page, changes: Partial<PageMapping>): void {
+    for (const mapping of Object.values(this.cache.getAllMappings())) {
+      if (mapping.pageId !== pageId) {
+        continue;
+      }
+
+      this.cache.setPageMapping(mapping.markdownPath, {
+        ...mapping,
+        ...changes,
+        title: page.title,
+        spaceKey: page.spaceKey,
+        version: mapping.version === versionBefore ? page.version.number : mapping.version,
+        lastUpdated: new Date().toISOString()
+      });
+    }
+  }
+
+  private async findParentId(parentTitle: string, spaceKey?: string): Promise<string> {
+    if (!spaceKey) {
+      throw new Error(`Cannot look up parent page '${parentTitle}' without a space key`);
+    }
+
+    const parent = await this.client.findPageByTitle(spaceKey, parentTitle);
+    if (!parent) {
+      throw new Error(`Parent page '${parentTitle}' from front matter not found in space '${spaceKey}'`);
+    }
+
+    return parent.id;
+  }
+
+  /**
+   * Remember which page a Markdown file was published to, along with the
+   * page version and content hash that sync uses to detect changes. Publishes
+   * also pass the hashes used to skip unchanged writes; without them (e.g.
+   * after a pull) the next publish always writes the page.
+   */
+  recordMapping(
+    markdownPath: string | undefined,
+    page: Page,
+    markdownContent: string,
+    labels?: string[],
+    published?: Pick<PageMapping, 'storageHash' | 'parentPageId' | 'attachmentHashes'>
+  ): void {
+    if (!markdownPath) {
+      return;
+    }
+
+    const previous = this.cache.getPageMapping(markdownPath);
+    const samePage = previous?.pageId === page.id;
+
+    this.cache.setPageMapping(markdownPath, {
+      markdownPath,
+      pageId: page.id,
+      spaceKey: page.spaceKey,
+      title: page.title,
+      lastUpdated: new Date().toISOString(),
+      version: page.version?.number,
+      contentHash: hashContent(markdownContent),
+      labels: labels ? normalizeLabels(labels) : previous?.labels,
+      storageHash: published?.storageHash,
+      parentPageId: published ? published.parentPageId : samePage ? previous?.parentPageId : undefined,
+      attachmentHashes: published ? published.attachmentHashes : samePage ? previous?.attachmentHashes : undefined
+    });
+  }
+
+  /**
+   * Bring the page labels in line with the Markdown: add the requested labels
+   * and the managed-by label, and remove labels an earlier publish set that
+   * the Markdown no longer lists. Labels added in the Confluence UI are kept.
+   */
+  private async syncLabels(pageId: string, labels: string[] | undefined, markdownPath?: string): Promise<LabelChanges> {
+    const wanted = normalizeLabels([...(labels || []), this.managedByLabel]);
+    const previous = markdownPath ? this.cache.getPageMapping(markdownPath)?.labels || [] : [];
+
+    try {
+      const current = new Set(await this.client.getLabels(pageId));
+      const added = wanted.filter(label => !current.has(label));
+      // Without a labels argument the caller did not ask for removals
+      const removed = labels
+        ? previous.filter(label => !wanted.includes(label) && current.has(label))
+        : [];
+
+      await this.client.addLabels(pageId, added);
+      await this.client.removeLabels(pageId, removed);
+
+      return { added, removed };
+    } catch (error: any) {
+      console.error(`❌ Failed to update labels on page ${pageId}:`, error.message);
+      return { added: [], removed: [], error: error.message };
+    }
+  }
+
+  /**
+   * Upload diagram PNGs and local images as attachments to the page,
+   * replacing earlier versions with the same filename. Files whose hash
+   * matches the last upload are left alone. Failures are reported per file
+   * rather than aborting the publish, since the page itself is already
+   * written.
+   */
+  private async uploadAttachments(pageId: string, rendered: RenderedPage, previousHashes: Record<string, string>): Promise<AttachmentResult[]> {
+    const files = this.attachmentFiles(rendered);
+    const changed = files.filter(file => previousHashes[file.filename] !== hashBuffer(file.buffer));
+
+    if (changed.length > 0) {
+      console.log(`Uploading ${changed.length} attachment(s)...`);
+    }
+
+    const results: AttachmentResult[] = [];
+    for (const file of files) {
+      if (!changed.includes(file)) {
+        results.push({ filename: file.filename, status: 'unchanged' });
+        continue;
+      }
+
+      try {
+        const { action } = await this.client.uploadOrUpdateAttachment(pageId, file.filename, file.buffer, file.contentType);
+        console.log(`✅ ${action === 'created' ? 'Uploaded' : 'Updated'} attachment: ${file.filename}`);
+        results.push({ filename: file.filename, status: action });
+      } catch (error: any) {
+        console.error(`❌ Failed to upload ${file.filename}:`, error.message);
+        results.push({ filename: file.filename, status: 'failed', error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  private attachmentFiles(rendered: RenderedPage): Array<{ filename: string; buffer: Buffer; contentType: string }> {
+    return [
+      ...rendered.diagrams.map(diagram => ({ filename: diagram.filename, buffer: diagram.buffer, contentType: 'image/png' })),
+      ...rendered.images
+    ];
+  }
+
+  /**
+   * Hashes of the attachments now on the page. Failed uploads are left out
+   * so that the next publish tries them again.
+   */
+  private attachmentHashes(rendered: RenderedPage, results: AttachmentResult[], previousHashes: Record<string, string>): Record<string, string> {
+    const hashes: Record<string, string> = {};
+    for (const file of this.attachmentFiles(rendered)) {
+      const result = results.find(r => r.filename === file.filename);
+      if (result?.status === 'failed') {
+        if (previousHashes[file.filename]) {
+          hashes[file.filename] = previousHashes[file.filename];
+        }
+        continue;
+      }
+      hashes[file.filename] = hashBuffer(file.buffer);
+    }
+    return hashes;
+  }
+
+  /**
+   * Remove attachments an earlier publish of this file uploaded that the page
+   * body no longer refers to, e.g. after a diagram was dropped from the
+   * Markdown. Only names recorded in the mapping's attachment hashes are
+   * considered, so attachments added by people are never touched.
+   */
+  private async deleteOrphanedAttachments(pageId: string, storage: string, publishedHashes: Record<string, string>): Promise<string[]> {
+    const referenced = new Set(
+      Array.from(storage.matchAll(/ri:filename="([^"]*)"/g), match => match[1].replace(/&amp;/g, '&'))
+    );
+
+    const deleted: string[] = [];
+    try {
+      // Collect first: deleting while paging would shift the result offsets
+      const orphaned: Attachment[] = [];
+      for await (const attachment of this.client.listAttachments(pageId)) {
+        if (attachment.filename in publishedHashes && !referenced.has(attachment.filename)) {
+          orphaned.push(attachment);
+        }
+      }
+
+      for (const attachment of orphaned) {
+        await this.client.deleteAttachment(attachment.id);
+        console.log(`🗑️  Deleted orphaned attachment: ${attachment.filename}`);
+        deleted.push(attachment.filename);
+      }
+    } catch (error: any) {
+      console.error(`❌ Failed to clean up attachments on page ${pageId}:`, error.message);
+    }
+
+    return deleted;
+  }
+}
+
+/**
+ * Name of the folder a Markdown file is in. Index files and placeholder
+ * folder pages (`guides/`) stand for their folder, so they use the one above.
+ */
+function folderName(markdownPath?: string): string | undefined {
+  if (!markdownPath) {
+    return undefined;
+  }
+
+  const normalized = normalizeMarkdownPath(markdownPath).replace(/\/$/, '');
+  let folder = path.posix.dirname(normalized);
+  if (/^(index|readme)\.md$/i.test(path.posix.basename(normalized))) {
+    folder = path.posix.dirname(folder);
+  }
+  return folder === '.' ? undefined : path.posix.basename(folder);
+}
+
+/**
+ * Confluence labels are lowercase and cannot contain spaces.
+ */
+function normalizeLabels(labels: string[]): string[] {
+  const normalized = labels
+    .map(label => label.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Storage format usually arrives on a single line; put each tag on its own
+ * line so a line-based diff shows what actually changed.
+ */
+function splitTags(storage: string): string {
+  return storage.replace(/>\s*</g, '>\n<').trim() + '\n';
+}
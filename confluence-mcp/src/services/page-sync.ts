@@ -0,0 +1,163 @@
+import fs from 'fs/promises';
+import { createTwoFilesPatch } from 'diff';
+import { ConfluenceClient } from './confluence-client';
+import { AttachmentResult, PagePublisher } from './page-publisher';
+import { StorageConverter } from './storage-converter';
+import { MarkdownPageCache, hashContent } from '../utils/cache';
+import { parseFrontMatter } from '../utils/front-matter';
+import { ProjectConfigManager } from '../utils/project-config';
+
+export type SyncDirection = 'auto' | 'push' | 'pull';
+
+export type SyncStatus = 'in-sync' | 'pushed' | 'pulled' | 'conflict';
+
+export interface SyncOptions {
+  markdownPath: string;
+  // Current Markdown; read from localFile when omitted
+  markdownContent?: string;
+  // Resolved file on disk to read from and to write pulled content to
+  localFile?: string;
+  direction?: SyncDirection;
+}
+
+export interface SyncResult {
+  status: SyncStatus;
+  localChanged: boolean;
+  remoteChanged: boolean;
+  page: {
+    id: string;
+    title: string;
+    version: number;
+    lastModified?: string;
+    lastModifiedBy?: string;
+  };
+  attachments?: AttachmentResult[];
+  deletedAttachments?: string[];
+  warnings?: string[];
+  // Pulled Markdown, for callers that could not be written to disk
+  markdown?: string;
+  writtenTo?: string;
+  diff?: string;
+}
+
+/**
+ * PageSync compares a Markdown file with the page it was published to and
+ * works out which side changed since the last publish, using the version and
+ * content hash stored in the MarkdownPageCache mapping.
+ */
+export class PageSync {
+  private client: ConfluenceClient;
+  private cache: MarkdownPageCache;
+  private publisher: PagePublisher;
+  private storageConverter: StorageConverter;
+
+  constructor(
+    client: ConfluenceClient = new ConfluenceClient(),
+    cache: MarkdownPageCache = new MarkdownPageCache(),
+    projectConfig: ProjectConfigManager = new ProjectConfigManager()
+  ) {
+    this.client = client;
+    this.cache = cache;
+    this.publisher = new PagePublisher(client, cache, projectConfig);
+    this.storageConverter = new StorageConverter();
+  }
+
+  async sync(options: SyncOptions): Promise<SyncResult> {
+    const { markdownPath, localFile, direction = 'auto' } = options;
+
+    const mapping = this.cache.getPageMapping(markdownPath);
+    if (!mapping) {
+      throw new Error(`'${markdownPath}' has not been published yet. Use confluence_create_page first.`);
+    }
+
+    const localMarkdown = options.markdownContent ?? (localFile ? await fs.readFile(localFile, 'utf8') : undefined);
+    if (localMarkdown === undefined) {
+      throw new Error(`No markdownContent given and '${markdownPath}' could not be read from disk`);
+    }
+
+    const remote = await this.client.getPage(mapping.pageId);
+    const local = parseFrontMatter(localMarkdown);
+
+    // Mappings written before sync existed, and pages adopted by
+    // confluence_link_existing, have no baseline, so both sides count as
+    // changed and the caller has to pick a direction.
+    const hasBaseline = !!mapping.contentHash && mapping.version !== undefined;
+    const localChanged = !hasBaseline || hashContent(localMarkdown) !== mapping.contentHash;
+    const remoteChanged = !hasBaseline || remote.version.number !== mapping.version;
+
+    const page = {
+      id: remote.id,
+      title: remote.title,
+      version: remote.version.number,
+      lastModified: remote.version.when,
+      lastModifiedBy: remote.version.by?.displayName
+    };
+
+    const action = direction !== 'auto'
+      ? direction
+      : localChanged && remoteChanged ? 'conflict'
+      : localChanged ? 'push'
+      : remoteChanged ? 'pull'
+      : 'none';
+
+    if (action === 'none') {
+      return { status: 'in-sync', localChanged, remoteChanged, page };
+    }
+
+    if (action === 'push') {
+      const { page: updated, attachments, deletedAttachments, warnings } = await this.publisher.updatePage({
+        pageId: remote.id,
+        title: local.frontMatter.title || remote.title,
+        markdownContent: localMarkdown,
+        markdownPath,
+        version: remote.version.number,
+        labels: local.frontMatter.labels
+      });
+
+      return {
+        status: 'pushed',
+        localChanged,
+        remoteChanged,
+        page: { ...page, version: updated.version.number },
+        attachments,
+        deletedAttachments,
+        warnings
+      };
+    }
+
+    // Front matter never reaches Confluence, so carry the local block over
+    const remoteMarkdown = local.raw + this.storageConverter.toMarkdown(remote.body) + '\n';
+
+    if (action === 'pull') {
+      // Only write to disk when the file is where the content came from
+      const writtenTo = options.markdownContent === undefined ? localFile : undefined;
+      if (writtenTo) {
+        await fs.writeFile(writtenTo, remoteMarkdown, 'utf8');
+      }
+
+      this.publisher.recordMapping(markdownPath, remote, remoteMarkdown);
+
+      return {
+        status: 'pulled',
+        localChanged,
+        remoteChanged,
+        page,
+        markdown: writtenTo ? undefined : remoteMarkdown,
+        writtenTo
+      };
+    }
+
+    return {
+      status: 'conflict',
+      localChanged,
+      remoteChanged,
+      page,
+      diff: createTwoFilesPatch(
+        `confluence/${remote.title} (v${remote.version.number})`,
+        markdownPath,
+        remoteMarkdown,
+        localMarkdown
+      )
+    };
+  }
+}
@@ -0,0 +1,399 @@
+interface StorageNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: StorageNode[];
+  text?: string;
+}
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'col', 'input', 'meta', 'link']);
+
+const BLOCK_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'div', 'pre', 'ul', 'ol', 'li', 'hr',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td', 'blockquote',
+  'ac:structured-macro', 'ac:rich-text-body', 'ac:parameter', 'ac:task-list',
+  'ac:layout', 'ac:layout-section', 'ac:layout-cell'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rarr: '→',
+  larr: '←',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+};
+
+const PANEL_LABELS: Record<string, string> = {
+  info: 'Info',
+  note: 'Note',
+  warning: 'Warning',
+  tip: 'Tip'
+};
+
+export interface StorageConverterOptions {
+  /**
+   * Markdown link target for a linked Confluence page, e.g. the relative path
+   * of its exported file. Links fall back to the page title when it returns
+   * nothing.
+   */
+  resolvePageLink?: (title: string, spaceKey?: string) => string | undefined;
+  /**
+   * Markdown path of an attachment of the page, e.g. the name its download
+   * was saved under. References keep the attachment name when it returns
+   * nothing.
+   */
+  resolveAttachment?: (filename: string) => string | undefined;
+}
+
+/**
+ * StorageConverter turns Confluence storage-format XHTML back into Markdown.
+ * It understands the markup MarkdownConverter produces (code, expand, panel
+ * and quote macros, attachment images, the professional layout wrapper) as
+ * well as the plain XHTML that pages edited in the Confluence UI contain.
+ */
+export class StorageConverter {
+  private options: StorageConverterOptions;
+
+  constructor(options: StorageConverterOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Convert a storage-format page body to Markdown.
+   *
+   * @param storage - The `body.storage.value` of a Confluence page
+   * @returns Markdown text
+   */
+  toMarkdown(storage: string): string {
+    const root = this.parse(storage);
+    return this.tidy(this.renderChildren(root));
+  }
+
+  private parse(xhtml: string): StorageNode {
+    const root: StorageNode = { tag: '#root', attrs: {}, children: [] };
+    const stack: StorageNode[] = [root];
+    const tokenRegex = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>|([^<]+|<)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(xhtml)) !== null) {
+      const [, cdata, closing, rawTag, rawAttrs, selfClosing, text] = match;
+      const parent = stack[stack.length - 1];
+
+      if (cdata !== undefined) {
+        // CDATA is already literal text and must not be entity-decoded again
+        parent.children.push({ tag: '#cdata', attrs: {}, children: [], text: cdata });
+      } else if (text !== undefined) {
+        parent.children.push({ tag: '#text', attrs: {}, children: [], text: this.decodeEntities(text) });
+      } else if (rawTag) {
+        const tag = rawTag.toLowerCase();
+
+        if (closing) {
+          // Pop back to the matching element, tolerating unclosed children
+          const index = stack.map(node => node.tag).lastIndexOf(tag);
+          if (index > 0) {
+            stack.length = index;
+          }
+          continue;
+        }
+
+        const node: StorageNode = { tag, attrs: this.parseAttributes(rawAttrs || ''), children: [] };
+        parent.children.push(node);
+        if (!selfClosing && !VOID_TAGS.has(tag)) {
+          stack.push(node);
+        }
+      }
+    }
+
+    return root;
+  }
+
+  private parseAttributes(raw: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const attrRegex = /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = attrRegex.exec(raw)) !== null) {
+      attrs[match[1].toLowerCase()] = this.decodeEntities(match[2] ?? match[3] ?? '');
+    }
+
+    return attrs;
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Out-of-range references are left as written instead of failing the page
+        return isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  private renderChildren(node: StorageNode): string {
+    const isBlock = (child?: StorageNode) => !child || BLOCK_TAGS.has(child.tag);
+
+    return node.children.map((child, index) => {
+      // Indentation between block elements is formatting, not content
+      if (child.tag === '#text' && !child.text?.trim() &&
+          (isBlock(node.children[index - 1]) || isBlock(node.children[index + 1]))) {
+        return '';
+      }
+      return this.render(child);
+    }).join('');
+  }
+
+  private render(node: StorageNode): string {
+    switch (node.tag) {
+      case '#text':
+        return (node.text || '').replace(/\s+/g, ' ');
+      case '#cdata':
+        return node.text || '';
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return this.block(`${'#'.repeat(Number(node.tag[1]))} ${this.inline(node)}`);
+      case 'p':
+        return this.block(this.renderChildren(node).trim());
+      case 'div':
+        return this.renderDiv(node);
+      case 'strong':
+      case 'b':
+        return this.wrapInline(node, '**');
+      case 'em':
+      case 'i':
+        return this.wrapInline(node, '*');
+      case 'del':
+      case 's':
+        return this.wrapInline(node, '~~');
+      case 'code':
+        return `\`${this.textContent(node)}\``;
+      case 'a':
+        return `[${this.inline(node)}](${node.attrs.href || ''})`;
+      case 'img':
+        return `![${node.attrs.alt || ''}](${node.attrs.src || ''})`;
+      case 'br':
+        return '\n';
+      case 'hr':
+        return this.block('---');
+      case 'pre':
+        return this.renderPre(node);
+      case 'ul':
+      case 'ol':
+        return this.block(this.renderList(node));
+      case 'table':
+        return this.block(this.renderTable(node));
+      case 'blockquote':
+        return this.block(this.quote(this.tidy(this.renderChildren(node))));
+      case 'ac:structured-macro':
+        return this.renderMacro(node);
+      case 'ac:image':
+        return this.renderImage(node);
+      case 'ac:link':
+        return this.renderLink(node);
+      case 'ac:task-list':
+        return this.block(node.children
+          .filter(child => child.tag === 'ac:task')
+          .map(task => {
+            const done = this.textContent(this.find(task, 'ac:task-status') || task).trim() === 'complete';
+            const body = this.find(task, 'ac:task-body');
+            return `- [${done ? 'x' : ' '}] ${body ? this.tidy(this.renderChildren(body)) : ''}`;
+          })
+          .join('\n'));
+      case 'ac:parameter':
+      case 'ac:emoticon':
+      case 'ac:placeholder':
+        return '';
+      default:
+        // Layout wrappers, spans, table sections and unknown inline markup
+        return this.renderChildren(node);
+    }
+  }
+
+  private renderDiv(node: StorageNode): string {
+    const callout = (node.attrs.class || '').match(/\b(info|warning|tip)-callout\b/);
+    if (callout) {
+      return this.block(`> **${PANEL_LABELS[callout[1]]}:** ${this.inline(node)}`);
+    }
+    if (node.attrs.class === 'toc-marker') {
+      return this.block('[TOC]');
+    }
+    return this.block(this.renderChildren(node));
+  }
+
+  private renderPre(node: StorageNode): string {
+    const code = this.find(node, 'code');
+    const language = (code?.attrs.class || '').match(/language-(\S+)/)?.[1] || '';
+    return this.block(this.fence(this.textContent(code || node), language));
+  }
+
+  private renderMacro(node: StorageNode): string {
+    const name = node.attrs['ac:name'] || '';
+    const body = this.find(node, 'ac:rich-text-body');
+    const renderedBody = body ? this.tidy(this.renderChildren(body)) : '';
+
+    switch (name) {
+      case 'code':
+      case 'noformat': {
+        const plainBody = this.find(node, 'ac:plain-text-body');
+        // CDATA is literal: `&lt;` in there is what the page shows, not `<`
+        const code = plainBody ? this.textContent(plainBody) : '';
+        return this.block(this.fence(code, this.parameter(node, 'language') || ''));
+      }
+      case 'info':
+      case 'note':
+      case 'warning':
+      case 'tip': {
+        const title = this.parameter(node, 'title');
+        const text = [title ? `**${title}**` : '', renderedBody].filter(Boolean).join('\n\n');
+        return this.block(this.quote(`**${PANEL_LABELS[name]}:** ${text}`));
+      }
+      case 'quote':
+        return this.block(this.quote(renderedBody));
+      case 'expand': {
+        const title = this.parameter(node, 'title') || 'Click here to expand...';
+        return this.block(`<details>\n<summary>${title}</summary>\n\n${renderedBody}\n\n</details>`);
+      }
+      case 'toc':
+        return this.block('[TOC]');
+      default:
+        // Keep a marker so that a later publish does not silently lose the macro
+        return this.block([`<!-- confluence macro: ${name} -->`, renderedBody].filter(Boolean).join('\n\n'));
+    }
+  }
+
+  private renderImage(node: StorageNode): string {
+    const attachment = this.find(node, 'ri:attachment');
+    const url = this.find(node, 'ri:url');
+    const filename = attachment?.attrs['ri:filename'];
+    const src = (filename && (this.options.resolveAttachment?.(filename) || filename)) || url?.attrs['ri:value'] || '';
+    const alt = node.attrs['ac:alt'] || filename || '';
+    return `![${alt}](${src.replace(/ /g, '%20')})`;
+  }
+
+  private renderLink(node: StorageNode): string {
+    const page = this.find(node, 'ri:page');
+    const attachment = this.find(node, 'ri:attachment');
+    const anchor = node.attrs['ac:anchor'];
+    const plainBody = this.find(node, 'ac:plain-text-link-body');
+    const richBody = this.find(node, 'ac:link-body');
+
+    const target = page?.attrs['ri:content-title'] || attachment?.attrs['ri:filename'] || '';
+    const resolved = !target ? undefined
+      : page ? this.options.resolvePageLink?.(target, page.attrs['ri:space-key'])
+      : attachment ? this.options.resolveAttachment?.(target)
+      : undefined;
+    const href = `${resolved || target}${anchor ? `#${anchor}` : ''}`;
+    const text = (plainBody && this.textContent(plainBody)) || (richBody && this.inline(richBody)) || target || anchor || '';
+    return `[${text}](${href.replace(/ /g, '%20')})`;
+  }
+
+  private renderList(node: StorageNode): string {
+    const ordered = node.tag === 'ol';
+    const items = node.children.filter(child => child.tag === 'li');
+
+    return items.map((item, index) => {
+      const marker = ordered ? `${index + 1}. ` : '- ';
+      // Lists are rendered tight: paragraphs inside an item become single lines
+      const content = this.tidy(this.renderChildren(item)).replace(/\n{2,}/g, '\n');
+      const [first, ...rest] = content.split('\n');
+      const indent = ' '.repeat(marker.length);
+      return [marker + first, ...rest.map(line => (line ? indent + line : line))].join('\n');
+    }).join('\n');
+  }
+
+  private renderTable(node: StorageNode): string {
+    const rows = this.findAll(node, 'tr').map(row =>
+      row.children
+        .filter(cell => cell.tag === 'th' || cell.tag === 'td')
+        .map(cell => this.tidy(this.renderChildren(cell)).replace(/\n+/g, '<br>').replace(/\|/g, '\\|'))
+    );
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const width = Math.max(...rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+    const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+    return [
+      line(rows[0]),
+      line(Array(width).fill('---')),
+      ...rows.slice(1).map(line)
+    ].join('\n');
+  }
+
+  private parameter(node: StorageNode, name: string): string | undefined {
+    const parameter = node.children.find(child => child.tag === 'ac:parameter' && child.attrs['ac:name'] === name);
+    return parameter ? this.textContent(parameter).trim() : undefined;
+  }
+
+  private wrapInline(node: StorageNode, marker: string): string {
+    const text = this.inline(node);
+    return text ? `${marker}${text}${marker}` : '';
+  }
+
+  private inline(node: StorageNode): string {
+    return this.renderChildren(node).replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  private fence(code: string, language: string): string {
+    const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}${language}\n${code.replace(/^\n+|\n+$/g, '')}\n${fence}`;
+  }
+
+  private quote(text: string): string {
+    return text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+  }
+
+  private block(text: string): string {
+    return text ? `\n\n${text}\n\n` : '';
+  }
+
+  private tidy(markdown: string): string {
+    return markdown
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private textContent(node: StorageNode): string {
+    if (node.text !== undefined) {
+      return node.text;
+    }
+    return node.children.map(child => this.textContent(child)).join('');
+  }
+
+  private find(node: StorageNode, tag: string): StorageNode | undefined {
+    for (const child of node.children) {
+      if (child.tag === tag) {
+        return child;
+      }
+      const nested = this.find(child, tag);
+      if (nested) {
+        return nested;
+      }
+    }
+    return undefined;
+  }
+
+  private findAll(node: StorageNode, tag: string): StorageNode[] {
+    return node.children.flatMap(child =>
+      child.tag === tag ? [child] : this.findAll(child, tag)
+    );
+  }
+}
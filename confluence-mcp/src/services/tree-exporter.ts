@@ -0,0 +1,302 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { Attachment, ConfluenceClient, Page } from './confluence-client';
+import { ImageProcessor } from './image-processor';
+import { PagePublisher } from './page-publisher';
+import { StorageConverter } from './storage-converter';
+import { MarkdownPageCache, hashBuffer } from '../utils/cache';
+import { ProjectConfigManager } from '../utils/project-config';
+
+const INDEX_FILE = 'index.md';
+
+export interface ExportTreeOptions {
+  // Replace Markdown files and attachments that already exist on disk
+  overwrite?: boolean;
+  // Download page attachments next to the Markdown files (default true)
+  includeAttachments?: boolean;
+}
+
+export interface ExportedPage {
+  // Path relative to the base directory, also the key of the cache mapping
+  path: string;
+  status: 'exported' | 'skipped' | 'failed';
+  title: string;
+  pageId: string;
+  attachments?: string[];
+  error?: string;
+  warnings?: string[];
+}
+
+interface ExportNode {
+  page: Page;
+  parentPageId?: string;
+  attachments: Attachment[];
+  children: ExportNode[];
+  // Absolute path of the Markdown file; attachments go into its folder
+  file: string;
+  // File name of each attachment in that folder, by attachment name
+  attachmentFiles: Map<string, string>;
+}
+
+/**
+ * TreeExporter writes a Confluence page and all its descendants to a folder
+ * of Markdown files laid out the way DirectoryPublisher reads them: the root
+ * page becomes `index.md` of the target folder, pages with children or
+ * attachments become `<slug>/index.md`, and leaf pages `<slug>.md`. Every
+ * exported file is recorded in the MarkdownPageCache, so publishing the
+ * folder afterwards updates the same pages instead of creating copies.
+ */
+export class TreeExporter {
+  private client: ConfluenceClient;
+  private publisher: PagePublisher;
+  private baseDir: string;
+
+  constructor(
+    client: ConfluenceClient = new ConfluenceClient(),
+    cache: MarkdownPageCache = new MarkdownPageCache(),
+    projectConfig: ProjectConfigManager = new ProjectConfigManager()
+  ) {
+    this.client = client;
+    this.publisher = new PagePublisher(client, cache, projectConfig);
+    this.baseDir = path.resolve(projectConfig.getBaseDir() || process.cwd());
+  }
+
+  /**
+   * Export a page tree.
+   *
+   * @param rootPageId - Page to export together with everything below it
+   * @param directory - Absolute path of the folder to write to
+   * @param options - Whether to overwrite existing files and download attachments
+   * @returns One result per page, parents before their children
+   */
+  async export(rootPageId: string, directory: string, options: ExportTreeOptions = {}): Promise<ExportedPage[]> {
+    const root = await this.client.getPage(rootPageId);
+    const tree = await this.collect(root, root.ancestors[root.ancestors.length - 1]?.id, options);
+
+    this.assignFiles(tree, path.join(path.resolve(directory), INDEX_FILE));
+
+    // Links between exported pages point at their files, so they survive a republish
+    const files = new Map<string, string>();
+    this.walk(tree, node => files.set(node.page.title, node.file));
+
+    const results: ExportedPage[] = [];
+    for (const node of this.flatten(tree)) {
+      results.push(await this.exportPage(node, root.spaceKey, files, options));
+    }
+    return results;
+  }
+
+  private async collect(page: Page, parentPageId: string | undefined, options: ExportTreeOptions): Promise<ExportNode> {
+    const attachments: Attachment[] = [];
+    if (options.includeAttachments !== false) {
+      for await (const attachment of this.client.listAttachments(page.id)) {
+        attachments.push(attachment);
+      }
+    }
+
+    const children: ExportNode[] = [];
+    for await (const child of this.client.listChildPages(page.id)) {
+      children.push(await this.collect(child, page.id, options));
+    }
+
+    return { page, parentPageId, attachments, children, file: '', attachmentFiles: new Map() };
+  }
+
+  /**
+   * Pick a file name for every page below `node`. Names only have to be
+   * unique within a folder, where attachments and sibling pages share the
+   * same namespace.
+   */
+  private assignFiles(node: ExportNode, file: string): void {
+    node.file = file;
+
+    const folder = path.dirname(file);
+    const taken = new Set([INDEX_FILE]);
+    // Attachments whose names need no sanitizing keep them
+    const renamed = (attachment: Attachment) => this.attachmentName(attachment) === attachment.filename ? 0 : 1;
+    for (const attachment of [...node.attachments].sort((a, b) => renamed(a) - renamed(b))) {
+      const name = this.uniqueFileName(this.attachmentName(attachment), taken);
+      node.attachmentFiles.set(attachment.filename, name);
+    }
+
+    for (const child of node.children) {
+      const slug = this.uniqueSlug(this.slugify(child.page.title) || `page-${child.page.id}`, taken);
+      const hasFolder = child.children.length > 0 || child.attachments.length > 0;
+
+      this.assignFiles(child, hasFolder
+        ? path.join(folder, slug, INDEX_FILE)
+        : path.join(folder, `${slug}.md`));
+    }
+  }
+
+  private async exportPage(
+    node: ExportNode,
+    spaceKey: string,
+    files: Map<string, string>,
+    options: ExportTreeOptions
+  ): Promise<ExportedPage> {
+    const markdownPath = path.relative(this.baseDir, node.file).split(path.sep).join('/');
+    const result: ExportedPage = { path: markdownPath, status: 'exported', title: node.page.title, pageId: node.page.id };
+
+    try {
+      if (!options.overwrite && await this.exists(node.file)) {
+        return { ...result, status: 'skipped', error: 'File already exists; pass overwrite to replace it' };
+      }
+
+      const page = await this.client.getPage(node.page.id);
+      const referenced = new Set<string>();
+      const converter = new StorageConverter({
+        resolvePageLink: (title, linkSpaceKey) => {
+          const target = files.get(title);
+          if (!target || (linkSpaceKey && linkSpaceKey !== spaceKey)) {
+            return undefined;
+          }
+          return path.relative(path.dirname(node.file), target).split(path.sep).join('/');
+        },
+        resolveAttachment: filename => {
+          const file = node.attachmentFiles.get(filename);
+          if (file) {
+            referenced.add(filename);
+          }
+          return file;
+        }
+      });
+
+      // Same layout as a pull by confluence_sync: front matter directly followed by the body
+      const frontMatter = `---\n${yaml.dump({ title: page.title, pageId: page.id })}---\n`;
+      const markdown = frontMatter + converter.toMarkdown(page.body) + '\n';
+
+      await fs.mkdir(path.dirname(node.file), { recursive: true });
+      await fs.writeFile(node.file, markdown, 'utf8');
+
+      const warnings: string[] = [];
+      const downloaded = await this.downloadAttachments(node, options, warnings);
+
+      // Attachments the page does not show are left out, so that publishing
+      // the Markdown never deletes them as orphans
+      const attachmentHashes: Record<string, string> = {};
+      for (const filename of referenced) {
+        if (downloaded[filename]) {
+          attachmentHashes[filename] = downloaded[filename];
+        }
+      }
+
+      this.publisher.recordMapping(markdownPath, page, markdown, undefined, {
+        parentPageId: node.parentPageId,
+        attachmentHashes
+      });
+
+      console.log(`✅ Exported ${page.title} (${page.id}) → ${markdownPath}`);
+
+      const saved = Object.keys(downloaded).map(filename => node.attachmentFiles.get(filename)!);
+      return {
+        ...result,
+        title: page.title,
+        attachments: saved.length > 0 ? saved : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined
+      };
+    } catch (error: any) {
+      console.error(`❌ Failed to export ${node.page.title} (${node.page.id}):`, error.message);
+      return { ...result, status: 'failed', error: error.message };
+    }
+  }
+
+  /**
+   * Download the attachments of a page into the folder of its Markdown file.
+   * Returns the hashes of the downloaded files by attachment name. Recorded
+   * under that name, an attachment published back unchanged is not uploaded
+   * again; one whose file had to be renamed is uploaded under the new name,
+   * and cleanupAttachments then removes the old one.
+   */
+  private async downloadAttachments(node: ExportNode, options: ExportTreeOptions, warnings: string[]): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+    const folder = path.dirname(node.file);
+
+    for (const attachment of node.attachments) {
+      const filename = node.attachmentFiles.get(attachment.filename)!;
+      const file = path.join(folder, filename);
+
+      try {
+        if (!options.overwrite && await this.exists(file)) {
+          warnings.push(`Attachment '${filename}' was not downloaded: file already exists`);
+          continue;
+        }
+
+        const data = await this.client.downloadAttachment(attachment);
+        await fs.writeFile(file, data);
+        hashes[attachment.filename] = hashBuffer(data);
+      } catch (error: any) {
+        warnings.push(`Attachment '${filename}' was not downloaded: ${error.message}`);
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Attachment names come from Confluence and must not point outside the
+   * folder. They are sanitized like images on publish, so that the file is
+   * uploaded back under the name it was saved as.
+   */
+  private attachmentName(attachment: Attachment): string {
+    const name = ImageProcessor.sanitize(attachment.filename);
+    return name === '.' || name === '..' || name === '' ? `attachment-${attachment.id}` : name;
+  }
+
+  private uniqueFileName(filename: string, taken: Set<string>): string {
+    const extension = path.extname(filename);
+    let candidate = filename;
+    let counter = 2;
+    while (taken.has(candidate.toLowerCase())) {
+      candidate = `${path.basename(filename, extension)}-${counter++}${extension}`;
+    }
+
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  private slugify(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * A slug is used both as `<slug>.md` and as folder `<slug>`, so reserve both.
+   */
+  private uniqueSlug(slug: string, taken: Set<string>): string {
+    let candidate = slug;
+    let counter = 2;
+    while (taken.has(candidate) || taken.has(`${candidate}.md`)) {
+      candidate = `${slug}-${counter++}`;
+    }
+
+    taken.add(candidate);
+    taken.add(`${candidate}.md`);
+    return candidate;
+  }
+
+  private walk(node: ExportNode, visit: (node: ExportNode) => void): void {
+    visit(node);
+    node.children.forEach(child => this.walk(child, visit));
+  }
+
+  private flatten(node: ExportNode): ExportNode[] {
+    const nodes: ExportNode[] = [];
+    this.walk(node, child => nodes.push(child));
+    return nodes;
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
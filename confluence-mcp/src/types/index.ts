@@ -27,13 +27,21 @@ export interface PageMapping {
   spaceKey: string;
   title: string;
   lastUpdated: string;
+  version?: number;
+  contentHash?: string;
+  labels?: string[];
+  storageHash?: string;
+  parentPageId?: string;
+  attachmentHashes?: Record<string, string>;
 }
 
 // Configuration Types
 export interface ConfluenceConfig {
   baseUrl: string;
+  authType?: 'basic' | 'bearer' | 'oauth';
   username: string;
   apiToken: string;
+  accessToken?: string;
 }
 
 // Tool Response Types
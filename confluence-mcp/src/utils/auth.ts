@@ -0,0 +1,65 @@
+export type AuthType = 'basic' | 'bearer' | 'oauth';
+
+export const AUTH_TYPES: AuthType[] = ['basic', 'bearer', 'oauth'];
+
+/**
+ * How to authenticate against Confluence:
+ * - `basic`: username (email) plus API token, as used by Confluence Cloud
+ * - `bearer`: a Data Center / Server personal access token
+ * - `oauth`: an OAuth 2.0 access token
+ */
+export interface ConfluenceCredentials {
+  authType?: AuthType;
+  username?: string;
+  apiToken?: string;
+  // Personal access token or OAuth 2.0 access token
+  accessToken?: string;
+}
+
+// Everything needed to reach one Confluence instance
+export interface ConfluenceConnection extends ConfluenceCredentials {
+  baseUrl: string;
+}
+
+export function parseAuthType(value?: string | null): AuthType {
+  const authType = (value || 'basic').trim().toLowerCase();
+  if (!AUTH_TYPES.includes(authType as AuthType)) {
+    throw new Error(`Unsupported Confluence auth type '${value}'. Use one of: ${AUTH_TYPES.join(', ')}`);
+  }
+  return authType as AuthType;
+}
+
+/**
+ * Build the Authorization header for a set of credentials. Bearer and OAuth
+ * tokens are both sent as `Bearer`; they differ in how they are issued.
+ */
+export function authHeaders(credentials: ConfluenceCredentials): Record<string, string> {
+  const authType = credentials.authType || 'basic';
+
+  if (authType === 'basic') {
+    const basic = Buffer.from(`${credentials.username || ''}:${credentials.apiToken || ''}`).toString('base64');
+    return { Authorization: `Basic ${basic}` };
+  }
+
+  return { Authorization: `Bearer ${credentials.accessToken || ''}` };
+}
+
+export function hasCredentials(credentials: ConfluenceCredentials): boolean {
+  return (credentials.authType || 'basic') === 'basic'
+    ? !!(credentials.username && credentials.apiToken)
+    : !!credentials.accessToken;
+}
+
+/**
+ * Describe what is missing for the chosen auth type, for error messages.
+ */
+export function missingCredentials(credentials: ConfluenceCredentials): string[] {
+  const authType = credentials.authType || 'basic';
+  if (authType === 'basic') {
+    return [
+      ...(credentials.username ? [] : ['username']),
+      ...(credentials.apiToken ? [] : ['apiToken'])
+    ];
+  }
+  return credentials.accessToken ? [] : ['accessToken'];
+}
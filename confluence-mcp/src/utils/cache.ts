@@ -1,15 +1,46 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import NodeCache from 'node-cache';
+import { normalizeMarkdownPath } from './paths';
 
-interface PageMapping {
+export interface PageMapping {
   markdownPath: string;
   pageId: string;
   spaceKey: string;
   title: string;
   lastUpdated: string;
+  // Page version and Markdown hash as of the last publish or pull
+  version?: number;
+  contentHash?: string;
+  // Labels set from the Markdown, so that dropping one removes it from the page
+  labels?: string[];
+  // Rendered storage body, parent and attachment hashes as of the last
+  // publish, used to skip writes when nothing changed
+  storageHash?: string;
+  parentPageId?: string;
+  attachmentHashes?: Record<string, string>;
 }
 
+/**
+ * Hash Markdown content so that later syncs can tell whether the local file
+ * changed since it was last published.
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Hash binary content such as diagram PNGs and images.
+ */
+export function hashBuffer(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Mappings are keyed by the normalized Markdown path, so that `./docs/a.md`,
+ * `docs/a.md` and `docs\a.md` find and update the same entry.
+ */
 export class MarkdownPageCache {
   private cache: NodeCache;
   private cacheFile: string;
@@ -24,8 +55,10 @@ export class MarkdownPageCache {
     try {
       if (fs.existsSync(this.cacheFile)) {
         const data = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+        // Older cache files may hold keys as they were spelled by the caller
         Object.keys(data).forEach(key => {
-          this.cache.set(key, data[key]);
+          const markdownPath = normalizeMarkdownPath(key);
+          this.cache.set(markdownPath, { ...data[key], markdownPath });
         });
         console.log(`Loaded ${Object.keys(data).length} page mappings from cache`);
       }
@@ -44,16 +77,17 @@ export class MarkdownPageCache {
   }
   
   getPageMapping(markdownPath: string): PageMapping | undefined {
-    return this.cache.get<PageMapping>(markdownPath);
+    return this.cache.get<PageMapping>(normalizeMarkdownPath(markdownPath));
   }
   
   setPageMapping(markdownPath: string, mapping: PageMapping): void {
-    this.cache.set(markdownPath, mapping);
+    const key = normalizeMarkdownPath(markdownPath);
+    this.cache.set(key, { ...mapping, markdownPath: key });
     this.saveCache();
   }
   
   removePageMapping(markdownPath: string): void {
-    this.cache.del(markdownPath);
+    this.cache.del(normalizeMarkdownPath(markdownPath));
     this.saveCache();
   }
   
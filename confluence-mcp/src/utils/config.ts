@@ -1,11 +1,37 @@
 import fs from 'fs';
 import path from 'path';
+import { AuthType, hasCredentials, parseAuthType } from './auth';
 
 interface ConfluenceConfig {
   baseUrl: string;
+  authType: AuthType;
+  // Basic auth
   username: string;
   apiToken: string;
+  // Bearer (personal access token) and OAuth auth
+  accessToken: string;
   spaceKey?: string;
+  // Label added to every published page; empty to disable
+  managedByLabel?: string;
+  // Request timeout, retries for 429/5xx responses and client-side rate limit
+  requestTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  maxRequestsPerSecond: number;
+}
+
+const DEFAULT_MANAGED_BY_LABEL = 'managed-by-confluence-mcp';
+
+const DEFAULT_HTTP_SETTINGS = {
+  requestTimeoutMs: 30000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  maxRequestsPerSecond: 5
+};
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !Number.isNaN(value) && value >= 0 ? value : fallback;
 }
 
 let confluenceConfig: ConfluenceConfig | null = null;
@@ -14,14 +40,21 @@ export function loadConfig(): void {
   // Load from environment variables (optional - can be empty for generic mode)
   confluenceConfig = {
     baseUrl: process.env.CONFLUENCE_BASE_URL || '',
+    authType: parseAuthType(process.env.CONFLUENCE_AUTH_TYPE),
     username: process.env.CONFLUENCE_USERNAME || '',
     apiToken: process.env.CONFLUENCE_API_TOKEN || '',
-    spaceKey: process.env.CONFLUENCE_SPACE_KEY || ''
+    accessToken: process.env.CONFLUENCE_ACCESS_TOKEN || '',
+    spaceKey: process.env.CONFLUENCE_SPACE_KEY || '',
+    managedByLabel: process.env.CONFLUENCE_MANAGED_BY_LABEL ?? DEFAULT_MANAGED_BY_LABEL,
+    requestTimeoutMs: numberFromEnv('CONFLUENCE_REQUEST_TIMEOUT_MS', DEFAULT_HTTP_SETTINGS.requestTimeoutMs),
+    maxRetries: numberFromEnv('CONFLUENCE_MAX_RETRIES', DEFAULT_HTTP_SETTINGS.maxRetries),
+    retryBaseDelayMs: numberFromEnv('CONFLUENCE_RETRY_BASE_DELAY_MS', DEFAULT_HTTP_SETTINGS.retryBaseDelayMs),
+    maxRequestsPerSecond: numberFromEnv('CONFLUENCE_MAX_REQUESTS_PER_SECOND', DEFAULT_HTTP_SETTINGS.maxRequestsPerSecond)
   };
   
-  const isConfigured = !!(confluenceConfig.baseUrl && confluenceConfig.username && confluenceConfig.apiToken);
+  const isConfigured = !!confluenceConfig.baseUrl && hasCredentials(confluenceConfig);
   if (isConfigured) {
-    console.log(`Confluence configuration loaded (pre-configured mode: ${confluenceConfig.baseUrl})`);
+    console.log(`Confluence configuration loaded (pre-configured mode: ${confluenceConfig.baseUrl}, ${confluenceConfig.authType} auth)`);
     if (confluenceConfig.spaceKey) {
       console.log(`  Default space key: ${confluenceConfig.spaceKey}`);
     }
@@ -36,7 +69,16 @@ export function getConfig(): ConfluenceConfig {
   }
   
   // Allow empty config for generic mode - credentials will be provided per-request
-  return confluenceConfig || { baseUrl: '', username: '', apiToken: '', spaceKey: '' };
+  return confluenceConfig || {
+    baseUrl: '',
+    authType: 'basic',
+    username: '',
+    apiToken: '',
+    accessToken: '',
+    spaceKey: '',
+    managedByLabel: DEFAULT_MANAGED_BY_LABEL,
+    ...DEFAULT_HTTP_SETTINGS
+  };
 }
 
 export function updateConfig(config: Partial<ConfluenceConfig>): void {
@@ -47,7 +89,7 @@ export function updateConfig(config: Partial<ConfluenceConfig>): void {
 }
 
 export function validateConfig(config: Partial<ConfluenceConfig>): boolean {
-  return !!(config.baseUrl && config.username && config.apiToken);
+  return !!config.baseUrl && hasCredentials(config);
 }
 
 export function getDefaultSpaceKey(): string | undefined {
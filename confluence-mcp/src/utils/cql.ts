@@ -0,0 +1,67 @@
+export interface CqlFilters {
+  titleContains?: string;
+  label?: string[];
+  ancestorId?: string;
+  spaceKey?: string;
+  modifiedSince?: string;
+}
+
+/**
+ * Quote a value for use inside a CQL string literal.
+ */
+export function quoteCql(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build a CQL query restricted to pages from structured filters, optionally
+ * combined with a raw CQL expression supplied by the caller.
+ */
+export function buildCql(filters: CqlFilters, rawCql?: string): string {
+  const clauses: string[] = ['type = page'];
+
+  if (filters.spaceKey) {
+    clauses.push(`space = ${quoteCql(filters.spaceKey)}`);
+  }
+  if (filters.titleContains) {
+    clauses.push(`title ~ ${quoteCql(filters.titleContains)}`);
+  }
+  for (const label of filters.label || []) {
+    clauses.push(`label = ${quoteCql(label)}`);
+  }
+  if (filters.ancestorId) {
+    clauses.push(`ancestor = ${quoteCql(filters.ancestorId)}`);
+  }
+  if (filters.modifiedSince) {
+    clauses.push(`lastmodified >= ${quoteCql(formatCqlDate(filters.modifiedSince))}`);
+  }
+  // ORDER BY must stay at the end of the query, outside the parentheses
+  let orderBy = '';
+  if (rawCql) {
+    const match = rawCql.match(/^([\s\S]*?)\s*(order\s+by\s+[\s\S]*)$/i);
+    const expression = match ? match[1] : rawCql;
+    orderBy = match ? ` ${match[2]}` : '';
+    if (expression.trim()) {
+      clauses.push(`(${expression.trim()})`);
+    }
+  }
+
+  return clauses.join(' AND ') + orderBy;
+}
+
+/**
+ * CQL only understands `yyyy-MM-dd` and `yyyy-MM-dd HH:mm`, so ISO timestamps
+ * are trimmed to minute precision.
+ */
+function formatCqlDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for modifiedSince: '${value}'`);
+  }
+
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
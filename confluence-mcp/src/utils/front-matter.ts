@@ -0,0 +1,66 @@
+import yaml from 'js-yaml';
+
+export interface FrontMatter {
+  title?: string;
+  space?: string;
+  // Parent page, either a page ID or a page title in the target space
+  parent?: string;
+  labels?: string[];
+  pageId?: string;
+  // `confluence: skip` keeps a file out of Confluence entirely
+  skip: boolean;
+}
+
+export interface ParsedMarkdown {
+  frontMatter: FrontMatter;
+  // Markdown with the front matter block removed
+  body: string;
+  // The front matter block exactly as written, delimiters included
+  raw: string;
+}
+
+const FRONT_MATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split YAML front matter from Markdown content. Content without a front
+ * matter block is returned unchanged with empty settings.
+ */
+export function parseFrontMatter(markdown: string): ParsedMarkdown {
+  const match = markdown.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return { frontMatter: { skip: false }, body: markdown, raw: '' };
+  }
+
+  let data: any;
+  try {
+    // The core schema keeps values such as `title: 2024-01-01` as written
+    // instead of turning them into dates
+    data = yaml.load(match[1], { schema: yaml.CORE_SCHEMA }) || {};
+  } catch (error: any) {
+    throw new Error(`Invalid YAML front matter: ${error.message}`);
+  }
+
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid YAML front matter: expected key/value pairs');
+  }
+
+  const asString = (value: unknown) =>
+    value === undefined || value === null || value === '' ? undefined : String(value);
+
+  const labels = data.labels;
+
+  return {
+    frontMatter: {
+      title: asString(data.title),
+      space: asString(data.space ?? data.spaceKey),
+      parent: asString(data.parent),
+      labels: labels === undefined || labels === null
+        ? undefined
+        : (Array.isArray(labels) ? labels : String(labels).split(',')).map(label => String(label).trim()).filter(Boolean),
+      pageId: asString(data.pageId),
+      skip: data.confluence === 'skip' || data.confluence === false || data.confluence?.skip === true
+    },
+    body: markdown.slice(match[0].length),
+    raw: match[0]
+  };
+}
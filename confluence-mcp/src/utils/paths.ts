@@ -0,0 +1,31 @@
+import path from 'path';
+
+/**
+ * Resolve a Markdown path the way the tools see it: relative paths are taken
+ * from the project's base directory when one is configured, otherwise from
+ * the server's working directory. Paths that escape that root, through `..`
+ * or by being absolute, are rejected so that tools cannot read or write
+ * arbitrary files.
+ */
+export function resolveProjectPath(filePath: string, baseDir?: string | null): string {
+  const root = path.resolve(baseDir || process.cwd());
+  const resolved = path.resolve(root, filePath);
+  const prefix = root.endsWith(path.sep) ? root : root + path.sep;
+
+  if (resolved !== root && !resolved.startsWith(prefix)) {
+    throw new Error(baseDir
+      ? `Path '${filePath}' is outside the configured base directory '${baseDir}'`
+      : `Path '${filePath}' is outside the working directory '${root}'; configure baseDir to publish files elsewhere`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Normalize a Markdown path for use as a lookup key, so that `./docs/a.md`,
+ * `docs/a.md` and `docs\a.md` all refer to the same file.
+ */
+export function normalizeMarkdownPath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  return normalized === '.' ? '' : normalized.replace(/^\.\//, '');
+}
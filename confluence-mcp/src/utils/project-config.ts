@@ -1,85 +1,255 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { AuthType, ConfluenceConnection, hasCredentials } from './auth';
+import { protectSecret, resolveSecret, secretStorage } from './secrets';
+
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * What to do when a new page would get a title that is already taken in the
+ * space: fail and point at the existing page, update the existing page
+ * instead, or add the parent page title or the folder name as a prefix or
+ * suffix.
+ */
+export type TitleCollisionPolicy = 'fail' | 'update' | 'prefix-parent' | 'suffix-parent' | 'prefix-folder' | 'suffix-folder';
+
+export const TITLE_COLLISION_POLICIES: TitleCollisionPolicy[] = ['fail', 'update', 'prefix-parent', 'suffix-parent', 'prefix-folder', 'suffix-folder'];
 
 export interface ProjectConfig {
   confluenceUrl: string;
-  username: string;
-  apiToken: string;
+  // Defaults to basic when missing, as in configs written before it existed
+  authType?: AuthType;
+  username?: string;
+  // Tokens are stored as `env:`/`file:` references or encrypted, see secrets.ts
+  apiToken?: string;
+  // Personal access token (bearer) or OAuth 2.0 access token (oauth)
+  accessToken?: string;
   spaceKey: string;
   parentPageTitle?: string;
   parentPageId?: string;
   baseDir?: string;
+  managedByLabel?: string;
+  // Defaults to fail
+  titleCollision?: TitleCollisionPolicy;
   lastUpdated: string;
 }
 
+/**
+ * On-disk layout of `confluence-project-config.json`: one ProjectConfig per
+ * named profile, e.g. an internal Data Center wiki and a customer-facing
+ * Cloud space. Files written before profiles existed hold a single
+ * ProjectConfig and are read as the `default` profile.
+ */
+interface ProjectConfigFile {
+  defaultProfile: string;
+  profiles: Record<string, ProjectConfig>;
+}
+
 export class ProjectConfigManager {
   private configPath: string;
-  private config: ProjectConfig | null = null;
+  private file: ProjectConfigFile | null = null;
+  // Profile this manager reads and writes; the file's default when not given
+  private profile?: string;
 
-  constructor(configPath: string = './confluence-project-config.json') {
+  constructor(configPath: string = './confluence-project-config.json', profile?: string) {
     this.configPath = configPath;
+    this.profile = profile;
     this.loadConfig();
   }
 
   private loadConfig(): void {
     try {
       if (fs.existsSync(this.configPath)) {
-        const configData = fs.readFileSync(this.configPath, 'utf8');
-        this.config = JSON.parse(configData);
+        const configData = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+        this.file = configData.profiles
+          ? configData
+          : { defaultProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: configData } };
+        this.migrateSecrets();
       }
     } catch (error) {
       console.warn('Failed to load project config:', error);
-      this.config = null;
+      this.file = null;
+    }
+  }
+
+  /**
+   * Configs written by earlier versions hold API tokens in plaintext. Move
+   * them out of the file the first time it is loaded.
+   */
+  private migrateSecrets(): void {
+    const profiles = this.file!.profiles;
+    const plaintext = Object.entries(profiles).filter(([, config]) =>
+      [config.apiToken, config.accessToken].some(secret => secret && secretStorage(secret) === 'plaintext'));
+
+    if (plaintext.length === 0) {
+      return;
+    }
+
+    try {
+      const migrated = { ...profiles };
+      for (const [name, config] of plaintext) {
+        migrated[name] = this.protectSecrets(name, config);
+      }
+      this.writeFile({ ...this.file!, profiles: migrated });
+      console.log(`🔒 Moved plaintext tokens out of ${this.configPath} for profile(s): ${plaintext.map(([name]) => name).join(', ')}`);
+    } catch (error) {
+      console.warn('Failed to migrate plaintext tokens out of the project config:', error);
+    }
+  }
+
+  private protectSecrets<T extends Partial<ProjectConfig>>(profile: string, config: T): T {
+    // Secret files are shared by every project on the machine, so key them by config file too
+    const prefix = crypto.createHash('sha256').update(path.resolve(this.configPath)).digest('hex').slice(0, 12);
+    const protectedConfig = { ...config };
+    // Only touch the keys given, so partial updates keep the stored tokens
+    if ('apiToken' in config) {
+      protectedConfig.apiToken = protectSecret(config.apiToken, `${prefix}-${profile}-apiToken`);
+    }
+    if ('accessToken' in config) {
+      protectedConfig.accessToken = protectSecret(config.accessToken, `${prefix}-${profile}-accessToken`);
+    }
+    return protectedConfig;
+  }
+
+  private writeFile(file: ProjectConfigFile): void {
+    try {
+      fs.writeFileSync(this.configPath, JSON.stringify(file, null, 2));
+      this.file = file;
+    } catch (error) {
+      throw new Error(`Failed to save project config: ${error}`);
+    }
+  }
+
+  /**
+   * Name of the profile this manager works on.
+   */
+  public getProfileName(): string {
+    return this.profile || this.getDefaultProfile();
+  }
+
+  public getDefaultProfile(): string {
+    return this.file?.defaultProfile || DEFAULT_PROFILE;
+  }
+
+  public listProfiles(): string[] {
+    return Object.keys(this.file?.profiles || {});
+  }
+
+  public hasProfile(name: string): boolean {
+    return !!this.file?.profiles[name];
+  }
+
+  /**
+   * Fail with the list of known profiles when an explicitly requested
+   * profile does not exist.
+   */
+  public requireProfile(): void {
+    if (this.profile && !this.hasProfile(this.profile)) {
+      const available = this.listProfiles();
+      throw new Error(
+        `Unknown Confluence profile '${this.profile}'. ` +
+        (available.length > 0 ? `Available profiles: ${available.join(', ')}` : 'Use confluence_setup_project to create it.')
+      );
     }
   }
 
   public saveConfig(config: Partial<ProjectConfig>): void {
+    const name = this.getProfileName();
+    const profiles = this.file?.profiles || {};
+
     const newConfig: ProjectConfig = {
-      ...this.config,
-      ...config,
+      ...profiles[name],
+      ...this.protectSecrets(name, config),
       lastUpdated: new Date().toISOString()
     } as ProjectConfig;
 
-    try {
-      fs.writeFileSync(this.configPath, JSON.stringify(newConfig, null, 2));
-      this.config = newConfig;
-    } catch (error) {
-      throw new Error(`Failed to save project config: ${error}`);
+    this.writeFile({
+      defaultProfile: this.getDefaultProfile(),
+      profiles: { ...profiles, [name]: newConfig }
+    });
+  }
+
+  public setDefaultProfile(name: string): void {
+    if (!this.hasProfile(name)) {
+      throw new Error(`Unknown Confluence profile '${name}'`);
     }
+    this.writeFile({ ...this.file!, defaultProfile: name });
   }
 
   public getConfig(): ProjectConfig | null {
-    return this.config;
+    return this.file?.profiles[this.getProfileName()] || null;
+  }
+
+  public getProfileConfig(name: string): ProjectConfig | null {
+    return this.file?.profiles[name] || null;
+  }
+
+  /**
+   * Connection details for ConfluenceClient, or undefined when the profile
+   * names no Confluence URL and the environment settings should be used. A
+   * profile for another instance is never sent the environment's token; when
+   * its credentials were only given to another session, this throws.
+   */
+  public getConnection(): ConfluenceConnection | undefined {
+    const config = this.getConfig();
+    if (!config?.confluenceUrl) {
+      return undefined;
+    }
+
+    if (!hasCredentials(config)) {
+      throw new Error(`Profile '${this.getProfileName()}' has no stored credentials for ${config.confluenceUrl}. ` +
+        'Run confluence_setup_project in this session, or set it up with an env: or file: token reference');
+    }
+
+    return {
+      baseUrl: config.confluenceUrl,
+      authType: config.authType || 'basic',
+      username: config.username,
+      apiToken: resolveSecret(config.apiToken),
+      accessToken: resolveSecret(config.accessToken)
+    };
+  }
+
+  /**
+   * Page mapping cache file for the profile. The default profile keeps the
+   * original file name so that existing mappings carry over.
+   */
+  public getCacheFile(): string {
+    const name = this.getProfileName();
+    const fileName = name === DEFAULT_PROFILE
+      ? 'markdown-page-mapping.json'
+      : `markdown-page-mapping.${name.replace(/[^A-Za-z0-9_-]+/g, '-')}.json`;
+    return path.join(process.cwd(), fileName);
   }
 
   public isConfigured(): boolean {
-    return this.config !== null && 
-           !!this.config.confluenceUrl && 
-           !!this.config.username && 
-           !!this.config.apiToken && 
-           !!this.config.spaceKey;
+    const config = this.getConfig();
+    return config !== null &&
+           !!config.confluenceUrl &&
+           hasCredentials(config) &&
+           !!config.spaceKey;
   }
 
   public getSpaceKey(): string | null {
-    return this.config?.spaceKey || null;
+    return this.getConfig()?.spaceKey || null;
   }
 
   public getParentPageTitle(): string | null {
-    return this.config?.parentPageTitle || null;
+    return this.getConfig()?.parentPageTitle || null;
   }
 
   public getParentPageId(): string | null {
-    return this.config?.parentPageId || null;
+    return this.getConfig()?.parentPageId || null;
   }
 
   public getBaseDir(): string | null {
-    return this.config?.baseDir || null;
+    return this.getConfig()?.baseDir || null;
   }
 
   public updateParentPageId(pageId: string): void {
-    if (this.config) {
-      this.config.parentPageId = pageId;
-      this.saveConfig(this.config);
+    if (this.getConfig()) {
+      this.saveConfig({ parentPageId: pageId });
     }
   }
 
@@ -88,7 +258,7 @@ export class ProjectConfigManager {
       if (fs.existsSync(this.configPath)) {
         fs.unlinkSync(this.configPath);
       }
-      this.config = null;
+      this.file = null;
     } catch (error) {
       throw new Error(`Failed to clear project config: ${error}`);
     }
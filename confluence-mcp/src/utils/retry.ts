@@ -0,0 +1,121 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export interface RetryOptions {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // First backoff delay, doubled on every further attempt
+  baseDelayMs: number;
+  // Upper bound for a single wait, including Retry-After
+  maxDelayMs: number;
+  // Client-side rate limit shared by all clients; 0 disables throttling
+  maxRequestsPerSecond: number;
+}
+
+const RETRYABLE_STATUS = [502, 503, 504];
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const NETWORK_ERRORS = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+// A page update sends the next version number, so repeating one that went
+// through would fail with a 409 against its own write
+const VERSIONED_WRITE = /^\/?content\/[^/?#]+\/?(?:[?#]|$)/;
+
+interface RetryState extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+// Shared across ConfluenceClient instances, since the tools create a new one per call
+let nextRequestAt = 0;
+
+/**
+ * Make an axios instance resilient against rate limiting and transient
+ * failures. Requests are spaced out to stay under `maxRequestsPerSecond`.
+ * A 429 is retried for any method, honouring `Retry-After`; gateway errors
+ * and network failures are only retried for idempotent methods, so a create
+ * is never sent twice, and not for page updates, whose outcome is unknown.
+ */
+export function applyRetryPolicy(client: AxiosInstance, options: RetryOptions): void {
+  client.interceptors.request.use(async config => {
+    await throttle(options.maxRequestsPerSecond);
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetryState | undefined;
+    if (!config || !isRetryable(error)) {
+      throw error;
+    }
+
+    const attempt = config.retryCount ?? 0;
+    if (attempt >= options.maxRetries) {
+      throw error;
+    }
+
+    const delay = Math.min(
+      retryAfterMs(error) ?? options.baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4),
+      options.maxDelayMs
+    );
+
+    console.warn(
+      `⚠️  ${config.method?.toUpperCase()} ${config.url} failed (${error.response?.status ?? error.code}), ` +
+      `retrying in ${Math.round(delay)}ms (${attempt + 1}/${options.maxRetries})`
+    );
+
+    config.retryCount = attempt + 1;
+    await sleep(delay);
+    return client.request(config);
+  });
+}
+
+function isRetryable(error: AxiosError): boolean {
+  const status = error.response?.status;
+  if (status === 429) {
+    return true;
+  }
+
+  const method = (error.config?.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.includes(method)) {
+    return false;
+  }
+  if (method === 'put' && VERSIONED_WRITE.test(error.config?.url || '')) {
+    return false;
+  }
+
+  return status !== undefined
+    ? RETRYABLE_STATUS.includes(status)
+    : NETWORK_ERRORS.includes(error.code || '');
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+function retryAfterMs(error: AxiosError): number | undefined {
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function throttle(maxRequestsPerSecond: number): Promise<void> {
+  if (maxRequestsPerSecond <= 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const wait = Math.max(0, nextRequestAt - now);
+  nextRequestAt = Math.max(now, nextRequestAt) + 1000 / maxRequestsPerSecond;
+
+  if (wait > 0) {
+    await sleep(wait);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ENV_PREFIX = 'env:';
+const FILE_PREFIX = 'file:';
+
+// References can come from tool arguments, which must not be able to point a
+// caller-chosen Confluence URL at unrelated server secrets
+const ENV_NAME_PATTERN = /^CONFLUENCE_\w+$/;
+const FORBIDDEN_ENV_NAMES = ['CONFLUENCE_CONFIG_KEY'];
+const SYSTEM_SECRETS_DIR = '/run/secrets';
+
+export type SecretStorage = 'env' | 'file' | 'encrypted' | 'plaintext';
+
+/**
+ * Secrets in the project config are never stored as they are. A value is
+ * one of:
+ * - `env:CONFLUENCE_VAR`: read from a `CONFLUENCE_*` environment variable
+ *   of the server
+ * - `file:/run/secrets/x`: read from a file under /run/secrets (Docker or
+ *   Kubernetes secrets) or the secrets directory
+ * - `enc:v1:...`: AES-256-GCM encrypted with CONFLUENCE_CONFIG_KEY
+ * Anything else is a plaintext secret from a config written before this
+ * existed, and is migrated by protectSecret.
+ */
+export function secretStorage(value: string): SecretStorage {
+  if (value.startsWith(ENV_PREFIX)) {
+    return 'env';
+  }
+  if (value.startsWith(FILE_PREFIX)) {
+    return 'file';
+  }
+  if (value.startsWith(ENCRYPTED_PREFIX)) {
+    return 'encrypted';
+  }
+  return 'plaintext';
+}
+
+/**
+ * Turn a stored secret back into the actual token.
+ */
+export function resolveSecret(value: string | undefined): string | undefined {
+  if (!value) {
+    return value;
+  }
+
+  switch (secretStorage(value)) {
+    case 'env': {
+      const name = value.slice(ENV_PREFIX.length);
+      if (!ENV_NAME_PATTERN.test(name) || FORBIDDEN_ENV_NAMES.includes(name)) {
+        throw new Error(`Environment variable ${name} cannot hold a Confluence token; only CONFLUENCE_* variables other than CONFLUENCE_CONFIG_KEY can be referenced`);
+      }
+      const secret = process.env[name];
+      if (!secret) {
+        throw new Error(`Environment variable ${name} referenced by the project config is not set`);
+      }
+      return secret;
+    }
+    case 'file': {
+      const file = value.slice(FILE_PREFIX.length);
+      try {
+        return fs.readFileSync(allowedSecretFile(file), 'utf8').trim();
+      } catch (error: any) {
+        throw new Error(`Cannot read secret file ${file} referenced by the project config: ${error.message}`);
+      }
+    }
+    case 'encrypted':
+      return decrypt(value.slice(ENCRYPTED_PREFIX.length));
+    default:
+      return value;
+  }
+}
+
+/**
+ * References passed to a tool are only resolved for a Confluence URL the
+ * operator configured, CONFLUENCE_BASE_URL or one of the comma-separated
+ * CONFLUENCE_ALLOWED_URLS. Otherwise a caller could send the server's token,
+ * or another profile's, to a host of their choosing. Raw tokens are the
+ * caller's own and can go anywhere.
+ *
+ * @param value - Token or reference passed to the tool
+ * @param confluenceUrl - Where the resolved token is going to be sent
+ */
+export function checkReferenceTarget(value: string | undefined, confluenceUrl: string): void {
+  if (!value || secretStorage(value) === 'plaintext') {
+    return;
+  }
+
+  const allowed = [process.env.CONFLUENCE_BASE_URL, ...(process.env.CONFLUENCE_ALLOWED_URLS || '').split(',')]
+    .map(url => normalizeUrl(url))
+    .filter(Boolean);
+  const target = normalizeUrl(confluenceUrl);
+
+  if (!target || !allowed.includes(target)) {
+    throw new Error(allowed.length > 0
+      ? `Secret references can only be used with ${allowed.join(', ')}; pass the token itself to connect to ${confluenceUrl}`
+      : `Secret references can only be used with a Confluence URL set in CONFLUENCE_BASE_URL or CONFLUENCE_ALLOWED_URLS; pass the token itself to connect to ${confluenceUrl}`);
+  }
+}
+
+function normalizeUrl(url: string | undefined): string | undefined {
+  try {
+    const parsed = new URL((url || '').trim());
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Prepare a secret for the project config. References are kept as given.
+ * A raw token is encrypted when CONFLUENCE_CONFIG_KEY is set; otherwise it
+ * is moved to a private file outside the project (CONFLUENCE_SECRETS_DIR,
+ * by default ~/.confluence-mcp/secrets) and replaced by a `file:` reference.
+ *
+ * @param value - Token or reference to store
+ * @param name - Identifies the secret, used for the file name
+ */
+export function protectSecret(value: string | undefined, name: string): string | undefined {
+  if (!value || secretStorage(value) !== 'plaintext') {
+    return value;
+  }
+
+  if (process.env.CONFLUENCE_CONFIG_KEY) {
+    return ENCRYPTED_PREFIX + encrypt(value);
+  }
+
+  const directory = secretsDirectory();
+  fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+
+  const file = path.join(directory, name.replace(/[^A-Za-z0-9_.-]+/g, '-'));
+  fs.writeFileSync(file, value, { mode: 0o600 });
+  return FILE_PREFIX + file;
+}
+
+function secretsDirectory(): string {
+  return path.resolve(process.env.CONFLUENCE_SECRETS_DIR || path.join(os.homedir(), '.confluence-mcp', 'secrets'));
+}
+
+/**
+ * Secret files must live in the secrets directory or /run/secrets. Symlinks
+ * are resolved first, so a link in there cannot point at another file.
+ */
+function allowedSecretFile(file: string): string {
+  const real = fs.realpathSync(file);
+  const allowed = [secretsDirectory(), SYSTEM_SECRETS_DIR].some(directory => {
+    let root: string;
+    try {
+      root = fs.realpathSync(directory);
+    } catch {
+      return false;
+    }
+    return real.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+  });
+
+  if (!allowed) {
+    throw new Error(`only files under ${secretsDirectory()} or ${SYSTEM_SECRETS_DIR} can be referenced`);
+  }
+  return real;
+}
+
+function encryptionKey(salt: Buffer): Buffer {
+  const key = process.env.CONFLUENCE_CONFIG_KEY;
+  if (!key) {
+    throw new Error('The project config holds encrypted tokens but CONFLUENCE_CONFIG_KEY is not set');
+  }
+  return crypto.scryptSync(key, salt, 32);
+}
+
+function encrypt(secret: string): string {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(salt), iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [salt, iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':');
+}
+
+function decrypt(payload: string): string {
+  const [salt, iv, tag, data] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!salt || !iv || !tag || !data) {
+    throw new Error('Malformed encrypted token in the project config');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(salt), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch (error: any) {
+    if (error.message.includes('CONFLUENCE_CONFIG_KEY')) {
+      throw error;
+    }
+    throw new Error('Cannot decrypt the token in the project config; CONFLUENCE_CONFIG_KEY does not match the key it was encrypted with');
+  }
+}
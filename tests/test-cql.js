@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the CQL built by confluence_search
+ *
+ * Tests:
+ * 1. Query building from filters and raw CQL
+ * 2. Quoting
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const { load, test, run } = require('./unit-test-helpers');
+
+const { buildCql, quoteCql } = load('src/utils/cql');
+
+async function testCql() {
+  console.log('1️⃣  Query building');
+
+  await test('structured filters are quoted and combined with AND', () => {
+    assert.strictEqual(
+      buildCql({ spaceKey: 'DOCS', titleContains: 'say "hi"', label: ['api', 'v2'], ancestorId: '123' }),
+      'type = page AND space = "DOCS" AND title ~ "say \\"hi\\"" AND label = "api" AND label = "v2" AND ancestor = "123"'
+    );
+  });
+
+  await test('raw CQL is parenthesised and ORDER BY stays at the end', () => {
+    assert.strictEqual(
+      buildCql({ spaceKey: 'DOCS' }, 'creator = currentUser() OR contributor = currentUser() order by lastmodified desc'),
+      'type = page AND space = "DOCS" AND (creator = currentUser() OR contributor = currentUser()) order by lastmodified desc'
+    );
+  });
+
+  await test('modifiedSince accepts dates and trims timestamps to minutes', () => {
+    assert.strictEqual(buildCql({ modifiedSince: '2024-05-01' }), 'type = page AND lastmodified >= "2024-05-01"');
+    assert.strictEqual(buildCql({ modifiedSince: '2024-05-01T10:20:30Z' }), 'type = page AND lastmodified >= "2024-05-01 10:20"');
+    assert.throws(() => buildCql({ modifiedSince: 'yesterday' }), /Invalid date/);
+  });
+}
+
+
+async function testQuoting() {
+  console.log('2️⃣  Quoting');
+
+  await test('quotes and backslashes are escaped', () => {
+    assert.strictEqual(quoteCql('a "b" \\ c'), '"a \\"b\\" \\\\ c"');
+  });
+}
+
+run('CQL', [testCql, testQuoting]);
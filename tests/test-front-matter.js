@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the YAML front matter that sets page title, parent, labels
+ * and space
+ *
+ * Tests:
+ * 1. Front matter parsing
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const { load, test, run } = require('./unit-test-helpers');
+
+const { parseFrontMatter } = load('src/utils/front-matter');
+
+async function testFrontMatter() {
+  console.log('1️⃣  Front matter');
+
+  await test('settings are read and removed from the body', () => {
+    const markdown = '---\ntitle: Hello\nspaceKey: DOCS\nparent: 42\nlabels: [api, " v2 "]\npageId: 123\n---\n# Body\n';
+    const { frontMatter, body, raw } = parseFrontMatter(markdown);
+
+    assert.deepStrictEqual(frontMatter, {
+      title: 'Hello',
+      space: 'DOCS',
+      parent: '42',
+      labels: ['api', 'v2'],
+      pageId: '123',
+      skip: false
+    });
+    assert.strictEqual(body, '# Body\n');
+    assert.strictEqual(raw + body, markdown);
+  });
+
+  await test('comma-separated labels and confluence: skip', () => {
+    const { frontMatter } = parseFrontMatter('---\nlabels: api, v2\nconfluence: skip\n---\n');
+    assert.deepStrictEqual(frontMatter.labels, ['api', 'v2']);
+    assert.strictEqual(frontMatter.skip, true);
+  });
+
+  await test('content without front matter is returned unchanged', () => {
+    const markdown = '# Title\n\n---\n\nText\n';
+    assert.deepStrictEqual(parseFrontMatter(markdown), { frontMatter: { skip: false }, body: markdown, raw: '' });
+  });
+
+  await test('invalid YAML is reported', () => {
+    assert.throws(() => parseFrontMatter('---\ntitle: [unclosed\n---\n'), /Invalid YAML front matter/);
+    assert.throws(() => parseFrontMatter('---\n- a\n- b\n---\n'), /expected key\/value pairs/);
+  });
+
+  await test('dates stay strings instead of becoming Date objects', () => {
+    const { frontMatter } = parseFrontMatter('---\ntitle: 2024-01-01\nparent: 2024-01-01T10:00:00Z\nlabels: [2024, v2]\n---\n');
+    assert.strictEqual(frontMatter.title, '2024-01-01');
+    assert.strictEqual(frontMatter.parent, '2024-01-01T10:00:00Z');
+    assert.deepStrictEqual(frontMatter.labels, ['2024', 'v2']);
+  });
+}
+
+run('front matter', [testFrontMatter]);
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for rewriting relative Markdown links into Confluence page links
+ *
+ * Tests:
+ * 1. Relative Markdown links
+ * 2. Anchors
+ * 3. Link lookup keys
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const { load, test, run } = require('./unit-test-helpers');
+
+const { MarkdownConverter } = load('src/services/markdown-converter');
+const { StorageConverter } = load('src/services/storage-converter');
+const { normalizeMarkdownPath } = load('src/utils/paths');
+
+async function testLinks() {
+  console.log('1️⃣  Relative Markdown links');
+
+  await test('relative Markdown links become page links and survive the way back', async () => {
+    const storage = await new MarkdownConverter().convertToConfluence('See [setup](setup.md).', {
+      markdownPath: 'docs/index.md',
+      findPage: linkedPath => linkedPath === 'docs/setup.md' ? { title: 'Setup', spaceKey: 'DOCS' } : undefined
+    });
+    assert.ok(storage.includes('<ri:page ri:content-title="Setup" ri:space-key="DOCS" />'), storage);
+
+    const converter = new StorageConverter({ resolvePageLink: title => title === 'Setup' ? 'setup.md' : undefined });
+    assert.strictEqual(converter.toMarkdown(storage), 'See [setup](setup.md).');
+  });
+
+  await test('malformed percent-encoding in a link is reported, not thrown', async () => {
+    const warnings = [];
+    const storage = await new MarkdownConverter().convertToConfluence('[x](a%zz.md)', { warnings });
+    assert.ok(storage.includes('href="a%zz.md"'), storage);
+    assert.ok(warnings.some(warning => warning.includes('malformed percent-encoding')), warnings.join('\n'));
+  });
+
+  await test('link targets are resolved relative to the file and normalized', async () => {
+    const looked = [];
+    await new MarkdownConverter().convertToConfluence('[a](./a.md) [b](../b.md) [c](sub/c%20d.md)', {
+      markdownPath: '.\\docs\\guide.md',
+      findPage: linkedPath => { looked.push(linkedPath); return undefined; }
+    });
+    assert.deepStrictEqual(looked, ['docs/a.md', 'b.md', 'docs/sub/c d.md']);
+  });
+
+  await test('links to files that were not published yet are kept and reported', async () => {
+    const warnings = [];
+    const storage = await new MarkdownConverter().convertToConfluence('[x](other.md)', { markdownPath: 'docs/a.md', warnings });
+    assert.ok(storage.includes('href="other.md"'), storage);
+    assert.ok(warnings.some(warning => warning.includes('docs/other.md has not been published yet')), warnings.join('\n'));
+  });
+
+  await test('absolute URLs and non-Markdown files are left alone', async () => {
+    const warnings = [];
+    const storage = await new MarkdownConverter().convertToConfluence('[a](https://example.com/a.md) [b](files/b.pdf)', { warnings, findPage: () => ({ title: 'X', spaceKey: 'DOCS' }) });
+    assert.ok(storage.includes('href="https://example.com/a.md"') && storage.includes('href="files/b.pdf"'), storage);
+    assert.deepStrictEqual(warnings, []);
+  });
+}
+
+async function testAnchors() {
+  console.log('2️⃣  Anchors');
+
+  await test('same-page anchors point at the heading text', async () => {
+    const warnings = [];
+    const storage = await new MarkdownConverter().convertToConfluence('## Getting Started\n\nSee [below](#getting-started) and [missing](#nope).', { warnings });
+    assert.ok(storage.includes('<ac:link ac:anchor="Getting Started"><ac:link-body>below</ac:link-body></ac:link>'), storage);
+    assert.ok(storage.includes('<ac:link ac:anchor="nope">'), storage);
+    assert.ok(warnings.some(warning => warning.includes("'#nope', which matches no heading")), warnings.join('\n'));
+  });
+
+  await test('anchors into other pages are kept as written and reported', async () => {
+    const warnings = [];
+    const storage = await new MarkdownConverter().convertToConfluence('[setup](setup.md#install-steps)', {
+      findPage: () => ({ title: 'Setup', spaceKey: 'DOCS' }),
+      warnings
+    });
+    assert.ok(storage.includes('<ac:link ac:anchor="install-steps"><ri:page ri:content-title="Setup"'), storage);
+    assert.ok(warnings.some(warning => warning.includes("keeps its anchor '#install-steps'")), warnings.join('\n'));
+  });
+}
+
+async function testLinkKeys() {
+  console.log('3️⃣  Link lookup keys');
+
+  await test('different spellings of a path give the same key', () => {
+    for (const spelling of ['docs/a.md', './docs/a.md', 'docs\\a.md', 'docs/x/../a.md']) {
+      assert.strictEqual(normalizeMarkdownPath(spelling), 'docs/a.md', spelling);
+    }
+    assert.strictEqual(normalizeMarkdownPath('./'), '');
+  });
+}
+
+run('Markdown links', [testLinks, testAnchors, testLinkKeys]);
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for adopting existing pages into the page mapping (PageLinker),
+ * against an in-memory Confluence
+ *
+ * Tests:
+ * 1. How files and folders are matched to pages
+ * 2. Saving matches, and what counts as a conflict
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { load, test, withTempDir, run, FakeConfluence, projectConfigStub } = require('./unit-test-helpers');
+
+const { PageLinker } = load('src/services/page-linker');
+const { DirectoryPublisher } = load('src/services/directory-publisher');
+const { PagePublisher } = load('src/services/page-publisher');
+const { MarkdownPageCache } = load('src/utils/cache');
+
+/**
+ * Confluence                     docs/
+ * Home                           ├── api.md        (pageId: '20')
+ * ├── Guide                      ├── draft.md      (confluence: skip)
+ * └── Setup                      ├── glossary.md
+ *     └── Install                ├── guide.md
+ * Archive                        ├── notes.md      (no page)
+ * ├── API Reference              └── setup/        (no index file)
+ * └── Glossary                       └── install.md
+ */
+const FILES = {
+  'api.md': "---\npageId: '20'\n---\n# API\n",
+  'draft.md': '---\nconfluence: skip\n---\n# Draft\n',
+  'glossary.md': '# Glossary\n',
+  'guide.md': '# Guide\n',
+  'notes.md': '# Notes\n',
+  'setup/install.md': '# Install\n'
+};
+
+function confluenceTree() {
+  const confluence = new FakeConfluence();
+  const home = confluence.addPage({ id: '1', title: 'Home' });
+  confluence.addPage({ id: '2', title: 'Guide', parentId: home.id });
+  const setup = confluence.addPage({ id: '3', title: 'Setup', parentId: home.id });
+  confluence.addPage({ id: '4', title: 'Install', parentId: setup.id });
+  const archive = confluence.addPage({ id: '9', title: 'Archive' });
+  confluence.addPage({ id: '20', title: 'API Reference', parentId: archive.id });
+  confluence.addPage({ id: '30', title: 'Glossary', parentId: archive.id });
+  return confluence;
+}
+
+// Write FILES (and `files`) below <temp>/docs, then hand the pieces to fn
+async function withDocs(fn, files = {}) {
+  await withTempDir('confluence-link-', async directory => {
+    for (const [name, content] of Object.entries({ ...FILES, ...files })) {
+      const file = path.join(directory, 'docs', name);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+
+    const confluence = confluenceTree();
+    const cache = new MarkdownPageCache(path.join(directory, 'mapping.json'));
+    const linker = new PageLinker(directory, confluence, cache);
+    const link = (options = {}) => linker.link(path.join(directory, 'docs'), { spaceKey: 'DOCS', parentPageId: '1', ...options });
+
+    await fn({ directory, confluence, cache, link });
+  });
+}
+
+const summary = results => results.map(result => [result.path, result.status, result.matchedBy, result.pageId]);
+
+async function testMatching() {
+  console.log('1️⃣  Matching');
+
+  await test('files match by front matter pageId, place below the parent, then title', async () => {
+    await withDocs(async ({ link }) => {
+      assert.deepStrictEqual(summary(await link()), [
+        ['docs/api.md', 'proposed', 'pageId', '20'],
+        ['docs/draft.md', 'skipped', undefined, undefined],
+        ['docs/glossary.md', 'proposed', 'title', '30'],
+        ['docs/guide.md', 'proposed', 'path', '2'],
+        ['docs/notes.md', 'unmatched', undefined, undefined],
+        ['docs/setup/', 'proposed', 'path', '3'],
+        ['docs/setup/install.md', 'proposed', 'path', '4']
+      ]);
+    });
+  });
+
+  await test('without a parent page, matching by title finds the folder, its files match below it', async () => {
+    await withDocs(async ({ link }) => {
+      const results = await link({ parentPageId: undefined });
+      assert.deepStrictEqual(summary(results).filter(([, status]) => status === 'proposed').map(([file, , matchedBy]) => [file, matchedBy]), [
+        ['docs/api.md', 'pageId'],
+        ['docs/glossary.md', 'title'],
+        ['docs/guide.md', 'title'],
+        ['docs/setup/', 'title'],
+        ['docs/setup/install.md', 'path']
+      ]);
+    });
+  });
+
+  await test('a pageId in front matter that does not exist fails the file', async () => {
+    await withDocs(async ({ link }) => {
+      const api = (await link()).find(result => result.path === 'docs/api.md');
+      assert.strictEqual(api.status, 'failed');
+      assert.strictEqual(api.error, 'Page 404 from front matter does not exist');
+    }, { 'api.md': "---\npageId: '404'\n---\n# API\n" });
+  });
+
+  await test('two files matching the same page: the second is a conflict', async () => {
+    await withDocs(async ({ link }) => {
+      const welcome = (await link()).find(result => result.path === 'docs/welcome.md');
+      assert.strictEqual(welcome.status, 'conflict');
+      assert.strictEqual(welcome.error, 'Page is already matched to docs/guide.md');
+    }, { 'welcome.md': "---\npageId: '2'\n---\n# Welcome\n" });
+  });
+}
+
+async function testSaving() {
+  console.log('2️⃣  Saving');
+
+  await test('matches are only saved with confirm', async () => {
+    await withDocs(async ({ cache, link }) => {
+      await link();
+      assert.strictEqual(cache.getPageMapping('docs/guide.md'), undefined);
+
+      const results = await link({ confirm: true });
+      assert.strictEqual(results.find(result => result.path === 'docs/guide.md').status, 'linked');
+      assert.strictEqual(cache.getPageMapping('docs/guide.md').pageId, '2');
+      assert.strictEqual(cache.getPageMapping('docs/setup/install.md').parentPageId, '3');
+      assert.strictEqual(cache.getPageMapping('docs/api.md').parentPageId, '9');
+    });
+  });
+
+  await test('saved mappings have no sync baseline', async () => {
+    await withDocs(async ({ cache, link }) => {
+      await link({ confirm: true });
+      const mapping = cache.getPageMapping('docs/guide.md');
+      assert.strictEqual(mapping.version, undefined);
+      assert.strictEqual(mapping.contentHash, undefined);
+    });
+  });
+
+  await test('linking again reports the saved mappings as already linked', async () => {
+    await withDocs(async ({ link }) => {
+      await link({ confirm: true });
+      const statuses = (await link({ confirm: true })).map(result => result.status);
+      assert.deepStrictEqual(statuses, ['already-linked', 'skipped', 'already-linked', 'already-linked', 'unmatched', 'already-linked', 'already-linked']);
+    });
+  });
+
+  await test('a file mapped to another page is a conflict unless relink is set', async () => {
+    await withDocs(async ({ cache, link }) => {
+      cache.setPageMapping('docs/guide.md', { markdownPath: 'docs/guide.md', pageId: '99', spaceKey: 'DOCS', title: 'Old guide', lastUpdated: '' });
+
+      const conflict = (await link({ confirm: true })).find(result => result.path === 'docs/guide.md');
+      assert.strictEqual(conflict.status, 'conflict');
+      assert.strictEqual(conflict.currentPageId, '99');
+      assert.strictEqual(cache.getPageMapping('docs/guide.md').pageId, '99');
+
+      const relinked = (await link({ confirm: true, relink: true })).find(result => result.path === 'docs/guide.md');
+      assert.deepStrictEqual([relinked.status, relinked.currentPageId], ['linked', '99']);
+      assert.strictEqual(cache.getPageMapping('docs/guide.md').pageId, '2');
+    });
+  });
+
+  await test('publishing the folder after linking updates the linked pages instead of creating new ones', async () => {
+    await withDocs(async ({ directory, confluence, cache, link }) => {
+      await link({ confirm: true });
+
+      const publisher = new PagePublisher(confluence, cache, projectConfigStub(directory, { managedByLabel: '' }));
+      await new DirectoryPublisher(directory, publisher, cache).publish(path.join(directory, 'docs'), { spaceKey: 'DOCS', parentPageId: '1' });
+
+      assert.deepStrictEqual(confluence.writes.filter(write => write.action === 'create').map(write => write.title), ['Notes']);
+      assert.deepStrictEqual(confluence.writes.filter(write => write.action === 'update').map(write => write.pageId).sort(), ['2', '20', '3', '30', '4']);
+    });
+  });
+}
+
+run('PageLinker', [testMatching, testSaving]);
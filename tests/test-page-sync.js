@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for confluence_sync's conflict detection (PageSync), against an
+ * in-memory Confluence
+ *
+ * Tests:
+ * 1. Which side changed since the last publish decides the action
+ * 2. Forced directions and missing baselines
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const path = require('path');
+const { load, test, withTempDir, run, FakeConfluence, projectConfigStub } = require('./unit-test-helpers');
+
+const { PageSync } = load('src/services/page-sync');
+const { PagePublisher } = load('src/services/page-publisher');
+const { MarkdownPageCache } = load('src/utils/cache');
+
+const MARKDOWN = '---\ntitle: Guide\n---\nFirst version.\n';
+
+// Publish MARKDOWN as docs/guide.md, then hand the pieces to fn
+async function withPublishedPage(fn) {
+  await withTempDir('confluence-sync-', async directory => {
+    const confluence = new FakeConfluence();
+    const cache = new MarkdownPageCache(path.join(directory, 'mapping.json'));
+    const projectConfig = projectConfigStub(directory, { managedByLabel: '' });
+
+    const { page } = await new PagePublisher(confluence, cache, projectConfig).createPage({
+      spaceKey: 'DOCS',
+      title: 'Guide',
+      markdownContent: MARKDOWN,
+      markdownPath: 'docs/guide.md'
+    });
+    confluence.writes = [];
+
+    await fn({ confluence, cache, page, sync: new PageSync(confluence, cache, projectConfig) });
+  });
+}
+
+// An edit made in the Confluence UI
+function editRemotely(confluence, pageId, body) {
+  const page = confluence.pages.get(pageId);
+  page.body = body;
+  page.version++;
+}
+
+async function testDecisionTable() {
+  console.log('1️⃣  Decision table');
+
+  await test('nothing changed: in sync, nothing is written', async () => {
+    await withPublishedPage(async ({ confluence, sync }) => {
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN });
+      assert.strictEqual(result.status, 'in-sync');
+      assert.deepStrictEqual([result.localChanged, result.remoteChanged], [false, false]);
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+
+  await test('only the Markdown changed: it is pushed and becomes the new baseline', async () => {
+    await withPublishedPage(async ({ confluence, cache, page, sync }) => {
+      const edited = MARKDOWN.replace('First', 'Second');
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: edited });
+
+      assert.strictEqual(result.status, 'pushed');
+      assert.ok(confluence.pages.get(page.id).body.includes('Second version.'));
+      assert.strictEqual(cache.getPageMapping('docs/guide.md').version, 2);
+
+      const again = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: edited });
+      assert.strictEqual(again.status, 'in-sync');
+    });
+  });
+
+  await test('only the page changed: it is pulled, keeping the local front matter', async () => {
+    await withPublishedPage(async ({ confluence, page, sync }) => {
+      editRemotely(confluence, page.id, '<p>Edited in Confluence.</p>');
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN });
+
+      assert.strictEqual(result.status, 'pulled');
+      assert.strictEqual(result.markdown, '---\ntitle: Guide\n---\nEdited in Confluence.\n');
+      assert.deepStrictEqual(confluence.writes, []);
+
+      const again = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: result.markdown });
+      assert.strictEqual(again.status, 'in-sync');
+    });
+  });
+
+  await test('both changed: conflict with a diff, nothing is written', async () => {
+    await withPublishedPage(async ({ confluence, page, sync }) => {
+      editRemotely(confluence, page.id, '<p>Edited in Confluence.</p>');
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN.replace('First', 'Local') });
+
+      assert.strictEqual(result.status, 'conflict');
+      assert.ok(result.diff.includes('-Edited in Confluence.') && result.diff.includes('+Local version.'), result.diff);
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+}
+
+async function testDirectionsAndBaselines() {
+  console.log('2️⃣  Directions and baselines');
+
+  await test('an explicit direction resolves a conflict', async () => {
+    await withPublishedPage(async ({ confluence, page, sync }) => {
+      editRemotely(confluence, page.id, '<p>Edited in Confluence.</p>');
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN, direction: 'push' });
+
+      assert.strictEqual(result.status, 'pushed');
+      assert.ok(confluence.pages.get(page.id).body.includes('First version.'));
+    });
+  });
+
+  await test('a mapping without a content hash is a conflict even when the page is unchanged', async () => {
+    await withPublishedPage(async ({ cache, sync }) => {
+      const { contentHash, ...adopted } = cache.getPageMapping('docs/guide.md');
+      cache.setPageMapping('docs/guide.md', adopted);
+
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN });
+      assert.strictEqual(result.status, 'conflict');
+    });
+  });
+
+  await test('a mapping without a version is a conflict even when the Markdown is unchanged', async () => {
+    await withPublishedPage(async ({ cache, sync }) => {
+      const { version, ...adopted } = cache.getPageMapping('docs/guide.md');
+      cache.setPageMapping('docs/guide.md', adopted);
+
+      const result = await sync.sync({ markdownPath: 'docs/guide.md', markdownContent: MARKDOWN });
+      assert.strictEqual(result.status, 'conflict');
+    });
+  });
+
+  await test('files that were never published are rejected', async () => {
+    await withPublishedPage(async ({ sync }) => {
+      await assert.rejects(sync.sync({ markdownPath: 'docs/other.md', markdownContent: MARKDOWN }), /has not been published yet/);
+    });
+  });
+}
+
+run('PageSync', [testDecisionTable, testDirectionsAndBaselines]);
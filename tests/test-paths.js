@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the path handling that keeps tools inside the project
+ *
+ * Tests:
+ * 1. Project path confinement
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { load, test, run } = require('./unit-test-helpers');
+
+const { resolveProjectPath } = load('src/utils/paths');
+
+async function testProjectPaths() {
+  console.log('1️⃣  Project paths');
+
+  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'confluence-base-'));
+
+  try {
+    await test('paths resolve below the base directory', () => {
+      assert.strictEqual(resolveProjectPath('docs/a.md', baseDir), path.join(baseDir, 'docs', 'a.md'));
+      assert.strictEqual(resolveProjectPath(path.join(baseDir, 'a.md'), baseDir), path.join(baseDir, 'a.md'));
+      assert.strictEqual(resolveProjectPath('.', baseDir), baseDir);
+    });
+
+    await test('paths outside the base directory are rejected', () => {
+      assert.throws(() => resolveProjectPath('../a.md', baseDir), /outside the configured base directory/);
+      assert.throws(() => resolveProjectPath('/etc/passwd', baseDir), /outside the configured base directory/);
+      assert.throws(() => resolveProjectPath(`${baseDir}-sibling/a.md`, baseDir), /outside the configured base directory/);
+    });
+
+    await test('without a base directory paths are confined to the working directory', () => {
+      assert.strictEqual(resolveProjectPath('docs/a.md'), path.resolve('docs/a.md'));
+      assert.throws(() => resolveProjectPath('../a.md'), /outside the working directory/);
+      assert.throws(() => resolveProjectPath('/etc/passwd'), /outside the working directory/);
+    });
+  } finally {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  }
+}
+
+
+run('project paths', [testProjectPaths]);
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the retry policy of ConfluenceClient (applyRetryPolicy),
+ * against an axios adapter that plays back canned responses
+ *
+ * Tests:
+ * 1. Which failures are retried
+ * 2. Retry-After and backoff delays
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const { SERVER_DIR, load, test, run } = require('./unit-test-helpers');
+
+const axios = require(require.resolve('axios', { paths: [SERVER_DIR] }));
+const { applyRetryPolicy } = load('src/utils/retry');
+
+/**
+ * An axios instance with the retry policy whose requests get the given
+ * outcomes in turn: a status code, optionally with headers, or a network
+ * error code. Once they run out, requests succeed with 200.
+ */
+function clientWith(outcomes, options = {}) {
+  const requests = [];
+  const client = axios.create({
+    adapter: async config => {
+      requests.push(`${config.method.toUpperCase()} ${config.url}`);
+      const outcome = outcomes.shift() ?? 200;
+
+      if (typeof outcome === 'string') {
+        throw new axios.AxiosError(`network error ${outcome}`, outcome, config);
+      }
+
+      const { status, headers = {} } = typeof outcome === 'number' ? { status: outcome } : outcome;
+      const response = { status, statusText: '', headers, config, data: {} };
+      if (status >= 400) {
+        throw new axios.AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+      }
+      return response;
+    }
+  });
+
+  applyRetryPolicy(client, { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 50, maxRequestsPerSecond: 0, ...options });
+  return { client, requests };
+}
+
+// Run fn, collecting the delays the retry warnings announce
+async function collectDelays(fn) {
+  const delays = [];
+  const warn = console.warn;
+  console.warn = message => {
+    const match = /retrying in (\d+)ms/.exec(message);
+    if (match) {
+      delays.push(Number(match[1]));
+    }
+  };
+
+  try {
+    await fn();
+  } finally {
+    console.warn = warn;
+  }
+  return delays;
+}
+
+async function attempts(outcomes, request) {
+  const { client, requests } = clientWith(outcomes);
+  let error;
+  await collectDelays(async () => {
+    try {
+      await request(client);
+    } catch (caught) {
+      error = caught;
+    }
+  });
+  return { count: requests.length, status: error?.response?.status ?? error?.code ?? 200 };
+}
+
+async function testRetryable() {
+  console.log('1️⃣  Retryable failures');
+
+  await test('gateway errors are retried for reads until they succeed', async () => {
+    assert.deepStrictEqual(await attempts([502, 503, 504], client => client.get('/content/1')), { count: 4, status: 200 });
+  });
+
+  await test('retries stop after maxRetries', async () => {
+    assert.deepStrictEqual(await attempts([503, 503, 503, 503, 503], client => client.get('/content/1')), { count: 4, status: 503 });
+  });
+
+  await test('429 is retried for any method, including creates', async () => {
+    assert.deepStrictEqual(await attempts([429], client => client.post('/content', {})), { count: 2, status: 200 });
+  });
+
+  await test('creates are not retried on gateway or network errors', async () => {
+    assert.deepStrictEqual(await attempts([503], client => client.post('/content', {})), { count: 1, status: 503 });
+    assert.deepStrictEqual(await attempts(['ECONNRESET'], client => client.post('/content', {})), { count: 1, status: 'ECONNRESET' });
+  });
+
+  await test('page updates are not retried, other PUTs and DELETEs are', async () => {
+    assert.deepStrictEqual(await attempts([503], client => client.put('/content/123', {})), { count: 1, status: 503 });
+    assert.deepStrictEqual(await attempts([503], client => client.put('/content/123?status=current', {})), { count: 1, status: 503 });
+    assert.deepStrictEqual(await attempts([503], client => client.put('/content/123/child/attachment/9', {})), { count: 2, status: 200 });
+    assert.deepStrictEqual(await attempts(['ETIMEDOUT'], client => client.delete('/content/9')), { count: 2, status: 200 });
+  });
+
+  await test('client errors and unknown network errors are not retried', async () => {
+    assert.deepStrictEqual(await attempts([404], client => client.get('/content/1')), { count: 1, status: 404 });
+    assert.deepStrictEqual(await attempts([500], client => client.get('/content/1')), { count: 1, status: 500 });
+    assert.deepStrictEqual(await attempts(['ENOTFOUND'], client => client.get('/content/1')), { count: 1, status: 'ENOTFOUND' });
+  });
+}
+
+async function testDelays() {
+  console.log('2️⃣  Delays');
+
+  const delaysFor = async (outcomes, options) => {
+    const { client } = clientWith(outcomes, options);
+    return collectDelays(() => client.get('/content/1'));
+  };
+
+  await test('Retry-After in seconds is honoured up to maxDelayMs', async () => {
+    assert.deepStrictEqual(await delaysFor([{ status: 429, headers: { 'retry-after': '0.02' } }]), [20]);
+    assert.deepStrictEqual(await delaysFor([{ status: 429, headers: { 'retry-after': '120' } }]), [50]);
+  });
+
+  await test('Retry-After as an HTTP date is honoured, a past date means no wait', async () => {
+    const future = new Date(Date.now() + 60000).toUTCString();
+    const past = new Date(Date.now() - 60000).toUTCString();
+    assert.deepStrictEqual(await delaysFor([{ status: 503, headers: { 'retry-after': future } }]), [50]);
+    assert.deepStrictEqual(await delaysFor([{ status: 503, headers: { 'retry-after': past } }]), [0]);
+  });
+
+  await test('without Retry-After the backoff doubles, with jitter', async () => {
+    const delays = await delaysFor([503, 503, 503], { baseDelayMs: 10, maxDelayMs: 1000 });
+    assert.strictEqual(delays.length, 3);
+    delays.forEach((delay, attempt) => {
+      const expected = 10 * 2 ** attempt;
+      assert.ok(delay >= Math.floor(expected * 0.8) && delay <= Math.ceil(expected * 1.2), `attempt ${attempt + 1} waited ${delay}ms`);
+    });
+  });
+
+  await test('an unparseable Retry-After falls back to the backoff', async () => {
+    const [delay] = await delaysFor([{ status: 429, headers: { 'retry-after': 'soon' } }], { baseDelayMs: 10 });
+    assert.ok(delay >= 8 && delay <= 12, `waited ${delay}ms`);
+  });
+}
+
+run('retry policy', [testRetryable, testDelays]);
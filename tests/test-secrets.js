@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for how tokens are kept out of the project config
+ *
+ * Tests:
+ * 1. Secret protection and resolution
+ * 2. Which Confluence URLs references can be used with
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { load, test, withEnv, run } = require('./unit-test-helpers');
+
+const { checkReferenceTarget, protectSecret, resolveSecret, secretStorage } = load('src/utils/secrets');
+
+async function testSecrets() {
+  console.log('1️⃣  Secrets');
+
+  const secretsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'confluence-secrets-'));
+  const outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'confluence-outside-'));
+
+  try {
+    await withEnv({ CONFLUENCE_SECRETS_DIR: secretsDir, CONFLUENCE_CONFIG_KEY: undefined }, async () => {
+      await test('raw tokens move to a private file without a config key', () => {
+        const reference = protectSecret('raw-token', 'profile/apiToken');
+        assert.strictEqual(secretStorage(reference), 'file');
+        assert.strictEqual(path.dirname(reference.slice('file:'.length)), fs.realpathSync(secretsDir));
+        assert.strictEqual(fs.statSync(reference.slice('file:'.length)).mode & 0o777, 0o600);
+        assert.strictEqual(resolveSecret(reference), 'raw-token');
+      });
+
+      await test('references are stored as given', () => {
+        assert.strictEqual(protectSecret('env:CONFLUENCE_API_TOKEN', 'x'), 'env:CONFLUENCE_API_TOKEN');
+        assert.strictEqual(protectSecret(undefined, 'x'), undefined);
+      });
+
+      await test('only CONFLUENCE_* variables can be referenced', async () => {
+        await withEnv({ CONFLUENCE_TEST_TOKEN: 'env-token', MCP_API_KEY: 'server-key' }, () => {
+          assert.strictEqual(resolveSecret('env:CONFLUENCE_TEST_TOKEN'), 'env-token');
+          assert.throws(() => resolveSecret('env:MCP_API_KEY'), /only CONFLUENCE_\* variables/);
+          assert.throws(() => resolveSecret('env:CONFLUENCE_CONFIG_KEY'), /only CONFLUENCE_\* variables/);
+          assert.throws(() => resolveSecret('env:CONFLUENCE_UNSET_TOKEN'), /is not set/);
+        });
+      });
+
+      await test('only files in the secrets directory can be referenced', () => {
+        const outside = path.join(outsideDir, 'token');
+        fs.writeFileSync(outside, 'outside-token');
+        fs.symlinkSync(outside, path.join(secretsDir, 'link'));
+
+        assert.throws(() => resolveSecret(`file:${outside}`), /can be referenced/);
+        assert.throws(() => resolveSecret(`file:${path.join(secretsDir, '..', path.basename(outsideDir), 'token')}`), /can be referenced/);
+        assert.throws(() => resolveSecret(`file:${path.join(secretsDir, 'link')}`), /can be referenced/);
+      });
+    });
+
+    await withEnv({ CONFLUENCE_SECRETS_DIR: secretsDir, CONFLUENCE_CONFIG_KEY: 'test-key' }, async () => {
+      await test('raw tokens are encrypted with a config key', () => {
+        const encrypted = protectSecret('raw-token', 'x');
+        assert.strictEqual(secretStorage(encrypted), 'encrypted');
+        assert.ok(!encrypted.includes('raw-token'));
+        assert.strictEqual(resolveSecret(encrypted), 'raw-token');
+
+        process.env.CONFLUENCE_CONFIG_KEY = 'other-key';
+        assert.throws(() => resolveSecret(encrypted), /does not match/);
+      });
+    });
+  } finally {
+    fs.rmSync(secretsDir, { recursive: true, force: true });
+    fs.rmSync(outsideDir, { recursive: true, force: true });
+  }
+}
+
+async function testReferenceTargets() {
+  console.log('2️⃣  Reference targets');
+
+  await withEnv({ CONFLUENCE_BASE_URL: 'https://docs.example.com/', CONFLUENCE_ALLOWED_URLS: 'https://wiki.example.com/wiki, https://other.example.com' }, async () => {
+    await test('references work with the configured URLs, however they are spelled', () => {
+      checkReferenceTarget('env:CONFLUENCE_API_TOKEN', 'https://docs.example.com');
+      checkReferenceTarget('file:/run/secrets/token', 'https://WIKI.example.com/wiki/');
+      checkReferenceTarget('env:CONFLUENCE_API_TOKEN', 'https://other.example.com/');
+    });
+
+    await test('references are refused for any other URL', () => {
+      assert.throws(() => checkReferenceTarget('env:CONFLUENCE_API_TOKEN', 'https://attacker.example.com'), /can only be used with/);
+      assert.throws(() => checkReferenceTarget('file:/run/secrets/token', 'https://wiki.example.com/other'), /can only be used with/);
+      assert.throws(() => checkReferenceTarget('enc:v1:abc', 'not a url'), /can only be used with/);
+    });
+
+    await test('raw tokens can go to any URL', () => {
+      checkReferenceTarget('raw-token', 'https://attacker.example.com');
+      checkReferenceTarget(undefined, 'https://attacker.example.com');
+    });
+  });
+
+  await withEnv({ CONFLUENCE_BASE_URL: undefined, CONFLUENCE_ALLOWED_URLS: undefined }, async () => {
+    await test('without configured URLs no reference can be used', () => {
+      assert.throws(() => checkReferenceTarget('env:CONFLUENCE_API_TOKEN', 'https://docs.example.com'), /CONFLUENCE_BASE_URL or CONFLUENCE_ALLOWED_URLS/);
+    });
+  });
+}
+
+run('secrets', [testSecrets, testReferenceTargets]);
@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for StorageConverter, which turns Confluence storage format
+ * back into Markdown for confluence_get_page_markdown and pulls
+ *
+ * Tests:
+ * 1. Markdown → storage format → Markdown round trip
+ * 2. Entities and CDATA
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const { load, test, run } = require('./unit-test-helpers');
+
+const { MarkdownConverter } = load('src/services/markdown-converter');
+const { StorageConverter } = load('src/services/storage-converter');
+
+async function testRoundTrip() {
+  console.log('1️⃣  Markdown ↔ storage format');
+
+  await test('round trip keeps headings, emphasis, lists, code, quotes, tables and links', async () => {
+    const markdown = [
+      '# Title',
+      '',
+      'Some **bold** and *italic* text with `code`.',
+      '',
+      '- one',
+      '- two',
+      '',
+      '1. first',
+      '2. second',
+      '',
+      '```js',
+      'const a = 1 < 2;',
+      '```',
+      '',
+      '> quoted',
+      '',
+      '| A | B |',
+      '| --- | --- |',
+      '| 1 | 2 |',
+      '',
+      '[link](https://example.com)'
+    ].join('\n');
+
+    const storage = await new MarkdownConverter().convertToConfluence(markdown);
+    assert.strictEqual(new StorageConverter().toMarkdown(storage), markdown);
+  });
+
+  await test('code blocks are written into CDATA as they are and come back unchanged', async () => {
+    const markdown = '```html\n<p>a &amp; b</p>\n<p>x</p> ]]> done\n```';
+    const storage = await new MarkdownConverter().convertToConfluence(markdown);
+
+    assert.ok(storage.includes('<![CDATA[<p>a &amp; b</p>\n<p>x</p> ]]]]><![CDATA[> done\n]]>'), storage);
+    assert.strictEqual(new StorageConverter().toMarkdown(storage), markdown);
+  });
+}
+
+async function testEntities() {
+  console.log('2️⃣  Entities and CDATA');
+
+  await test('entities are decoded, out-of-range code points are kept as written', () => {
+    const markdown = new StorageConverter().toMarkdown('<p>&lt;a&gt; &amp; &#x1F600; &#99999999;</p>');
+    assert.strictEqual(markdown, '<a> & 😀 &#99999999;');
+  });
+
+  await test('CDATA in code macros is read literally', () => {
+    const storage = '<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[a &lt; b]]></ac:plain-text-body></ac:structured-macro>';
+    assert.strictEqual(new StorageConverter().toMarkdown(storage), '```\na &lt; b\n```');
+  });
+}
+
+run('StorageConverter', [testRoundTrip, testEntities]);
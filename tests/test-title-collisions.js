@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the title collision policies of PagePublisher.createPage,
+ * against an in-memory Confluence
+ *
+ * Tests:
+ * 1. Failing and updating the page that has the title
+ * 2. Renaming the new page after its parent or folder
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const path = require('path');
+const { load, test, withTempDir, run, FakeConfluence, projectConfigStub } = require('./unit-test-helpers');
+
+const { PagePublisher } = load('src/services/page-publisher');
+const { TitleCollisionError } = load('src/services/confluence-client');
+const { MarkdownPageCache } = load('src/utils/cache');
+
+/**
+ * Home
+ * ├── Backend     (where the new Setup page goes)
+ * └── Frontend
+ *     └── Setup   (already has the title)
+ */
+async function withCollision(fn, config = {}) {
+  await withTempDir('confluence-collision-', async directory => {
+    const confluence = new FakeConfluence();
+    const home = confluence.addPage({ id: '1', title: 'Home' });
+    const backend = confluence.addPage({ id: '2', title: 'Backend', parentId: home.id });
+    const frontend = confluence.addPage({ id: '3', title: 'Frontend', parentId: home.id });
+    const existing = confluence.addPage({ id: '10', title: 'Setup', parentId: frontend.id, body: '<p>Frontend setup.</p>' });
+
+    const cache = new MarkdownPageCache(path.join(directory, 'mapping.json'));
+    const publisher = new PagePublisher(confluence, cache, projectConfigStub(directory, { managedByLabel: '', ...config }));
+    const create = (input = {}) => publisher.createPage({
+      spaceKey: 'DOCS',
+      title: 'Setup',
+      markdownContent: 'Backend setup.\n',
+      markdownPath: 'api/setup.md',
+      parentPageId: backend.id,
+      ...input
+    });
+
+    await fn({ confluence, cache, existing, backend, frontend, create });
+  });
+}
+
+async function testFailAndUpdate() {
+  console.log('1️⃣  Fail and update');
+
+  await test('by default a taken title fails and nothing is written', async () => {
+    await withCollision(async ({ confluence, create }) => {
+      await assert.rejects(create(), error => {
+        assert.ok(error instanceof TitleCollisionError);
+        assert.strictEqual(error.existingPage.id, '10');
+        return true;
+      });
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+
+  await test('the policy passed to createPage overrides the project config', async () => {
+    await withCollision(async ({ create }) => {
+      await assert.rejects(create({ titleCollision: 'fail' }), TitleCollisionError);
+    }, { titleCollision: 'update' });
+  });
+
+  await test('update replaces the content of the existing page and leaves it where it is', async () => {
+    await withCollision(async ({ confluence, cache, existing, create }) => {
+      const result = await create({ titleCollision: 'update' });
+
+      assert.deepStrictEqual(result.titleCollision, { policy: 'update', existingPageId: '10' });
+      assert.deepStrictEqual(confluence.writes.map(write => [write.action, write.pageId]), [['update', '10']]);
+      assert.ok(confluence.pages.get(existing.id).body.includes('Backend setup.'));
+      assert.strictEqual(confluence.pages.get(existing.id).parentId, '3');
+      assert.strictEqual(cache.getPageMapping('api/setup.md').pageId, '10');
+    });
+  });
+}
+
+async function testRenaming() {
+  console.log('2️⃣  Renaming');
+
+  await test('the new page is named after its parent page or folder', async () => {
+    const titles = {
+      'suffix-parent': 'Setup (Backend)',
+      'prefix-parent': 'Backend - Setup',
+      'suffix-folder': 'Setup (api)',
+      'prefix-folder': 'api - Setup'
+    };
+    for (const [policy, title] of Object.entries(titles)) {
+      await withCollision(async ({ confluence, cache, create }) => {
+        const result = await create();
+
+        assert.strictEqual(result.page.title, title);
+        assert.deepStrictEqual(result.titleCollision, { policy, existingPageId: '10', requestedTitle: 'Setup' });
+        assert.strictEqual(confluence.pages.get(result.page.id).parentId, '2');
+        assert.strictEqual(cache.getPageMapping('api/setup.md').pageId, result.page.id);
+      }, { titleCollision: policy });
+    }
+  });
+
+  await test('index files are named after the folder that contains their folder', async () => {
+    await withCollision(async ({ create }) => {
+      const result = await create({ markdownPath: 'api/setup/index.md' });
+      assert.strictEqual(result.page.title, 'Setup (api)');
+    }, { titleCollision: 'suffix-folder' });
+  });
+
+  await test('renaming fails without a parent page or folder to name the page after', async () => {
+    await withCollision(async ({ confluence, create }) => {
+      await assert.rejects(create({ titleCollision: 'suffix-parent', parentPageId: undefined }), /Policy 'suffix-parent' needs a parent page/);
+      await assert.rejects(create({ titleCollision: 'prefix-folder', markdownPath: 'setup.md' }), /Policy 'prefix-folder' needs a Markdown path inside a folder/);
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+
+  await test('publishing again updates the renamed page instead of failing on its title', async () => {
+    await withCollision(async ({ confluence, create }) => {
+      const first = await create();
+      confluence.writes = [];
+
+      const second = await create({ markdownContent: 'Backend setup, revised.\n' });
+      assert.strictEqual(second.page.id, first.page.id);
+      assert.strictEqual(second.titleCollision.updatedPageId, first.page.id);
+      assert.deepStrictEqual(confluence.writes.map(write => [write.action, write.pageId]), [['update', first.page.id]]);
+    }, { titleCollision: 'suffix-parent' });
+  });
+
+  await test('a renamed title taken under another parent fails', async () => {
+    await withCollision(async ({ confluence, frontend, create }) => {
+      confluence.addPage({ id: '11', title: 'Setup (Backend)', parentId: frontend.id });
+
+      await assert.rejects(create(), error => {
+        assert.ok(error instanceof TitleCollisionError);
+        assert.deepStrictEqual([error.title, error.existingPage.id], ['Setup (Backend)', '11']);
+        return true;
+      });
+      assert.deepStrictEqual(confluence.writes, []);
+    }, { titleCollision: 'suffix-parent' });
+  });
+}
+
+run('title collision policies', [testFailAndUpdate, testRenaming]);
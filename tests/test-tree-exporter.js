@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for exporting a page tree to Markdown (TreeExporter), against
+ * an in-memory Confluence
+ *
+ * Tests:
+ * 1. Folder layout and links
+ * 2. Attachments, and publishing the export back
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { load, test, withTempDir, run, FakeConfluence, projectConfigStub } = require('./unit-test-helpers');
+
+const { TreeExporter } = load('src/services/tree-exporter');
+const { DirectoryPublisher } = load('src/services/directory-publisher');
+const { PagePublisher } = load('src/services/page-publisher');
+const { MarkdownPageCache } = load('src/utils/cache');
+
+/**
+ * Home
+ * └── Handbook              (the exported root)
+ *     ├── Getting Started   (links to FAQ)
+ *     │   └── Install
+ *     ├── FAQ
+ *     └── faq               (same slug as FAQ)
+ */
+function handbook() {
+  const confluence = new FakeConfluence();
+  const home = confluence.addPage({ id: '1', title: 'Home' });
+  const root = confluence.addPage({ id: '10', title: 'Handbook', parentId: home.id, body: '<p>Welcome.</p>' });
+  const start = confluence.addPage({
+    id: '11',
+    title: 'Getting Started',
+    parentId: root.id,
+    body: '<p>Read the <ac:link><ri:page ri:content-title="FAQ" ri:space-key="DOCS" /><ac:link-body>FAQ</ac:link-body></ac:link>.</p>'
+  });
+  confluence.addPage({ id: '12', title: 'Install', parentId: start.id, body: '<p>Steps.</p>' });
+  confluence.addPage({ id: '13', title: 'FAQ', parentId: root.id, body: '<p>Questions.</p>' });
+  confluence.addPage({ id: '14', title: 'faq', parentId: root.id, body: '<p>More questions.</p>' });
+  return { confluence, root };
+}
+
+// Export the tree below `root` into <temp>/handbook, then hand the pieces to fn
+async function withExport(confluence, root, fn, options = {}) {
+  await withTempDir('confluence-export-', async directory => {
+    const cache = new MarkdownPageCache(path.join(directory, 'mapping.json'));
+    const projectConfig = projectConfigStub(directory, { managedByLabel: '' });
+    const exporter = new TreeExporter(confluence, cache, projectConfig);
+    const target = path.join(directory, 'handbook');
+
+    const results = await exporter.export(root.id, target, options);
+    const read = file => fs.readFileSync(path.join(target, file), 'utf8');
+
+    await fn({ directory, target, cache, projectConfig, results, read, exporter });
+  });
+}
+
+async function testLayout() {
+  console.log('1️⃣  Layout');
+
+  await test('pages with children get a folder, leaves a file, clashing slugs a counter', async () => {
+    const { confluence, root } = handbook();
+    await withExport(confluence, root, async ({ results }) => {
+      assert.deepStrictEqual(results.map(result => [result.path, result.status, result.pageId]), [
+        ['handbook/index.md', 'exported', '10'],
+        ['handbook/getting-started/index.md', 'exported', '11'],
+        ['handbook/getting-started/install.md', 'exported', '12'],
+        ['handbook/faq.md', 'exported', '13'],
+        ['handbook/faq-2.md', 'exported', '14']
+      ]);
+    });
+  });
+
+  await test('files carry title and pageId, links between exported pages point at files', async () => {
+    const { confluence, root } = handbook();
+    await withExport(confluence, root, async ({ read }) => {
+      assert.strictEqual(read('getting-started/index.md'), "---\ntitle: Getting Started\npageId: '11'\n---\nRead the [FAQ](../faq.md).\n");
+    });
+  });
+
+  await test('every file is mapped to its page and parent', async () => {
+    const { confluence, root } = handbook();
+    await withExport(confluence, root, async ({ cache }) => {
+      const mapping = cache.getPageMapping('handbook/getting-started/install.md');
+      assert.strictEqual(mapping.pageId, '12');
+      assert.strictEqual(mapping.parentPageId, '11');
+      assert.strictEqual(mapping.version, 1);
+      assert.strictEqual(cache.getPageMapping('handbook/index.md').parentPageId, '1');
+    });
+  });
+
+  await test('existing files are kept unless overwrite is set', async () => {
+    const { confluence, root } = handbook();
+    await withExport(confluence, root, async ({ exporter, target, read }) => {
+      fs.writeFileSync(path.join(target, 'faq.md'), 'local edits\n');
+
+      const kept = await exporter.export(root.id, target);
+      assert.strictEqual(kept.find(result => result.pageId === '13').status, 'skipped');
+      assert.strictEqual(read('faq.md'), 'local edits\n');
+
+      await exporter.export(root.id, target, { overwrite: true });
+      assert.ok(read('faq.md').includes('Questions.'));
+    });
+  });
+}
+
+async function testAttachments() {
+  console.log('2️⃣  Attachments');
+
+  const withAttachments = () => {
+    const { confluence, root } = handbook();
+    confluence.pages.get(root.id).body = '<p><ac:image><ri:attachment ri:filename="my diagram.png" /></ac:image></p>' +
+      '<p><ac:image><ri:attachment ri:filename="logo.png" /></ac:image></p>';
+    confluence.addAttachment(root.id, 'my diagram.png', Buffer.from('diagram'));
+    confluence.addAttachment(root.id, 'logo.png', Buffer.from('logo'));
+    confluence.addAttachment(root.id, 'notes.txt', Buffer.from('notes'));
+    confluence.addAttachment(root.id, '../escape.txt', Buffer.from('escape'));
+    return { confluence, root };
+  };
+
+  await test('attachments are saved under the names publishing uses, and linked by them', async () => {
+    const { confluence, root } = withAttachments();
+    await withExport(confluence, root, async ({ target, read, results }) => {
+      assert.deepStrictEqual(fs.readdirSync(target).filter(name => !name.endsWith('.md') && name !== 'getting-started').sort(),
+        ['..-escape.txt', 'logo.png', 'my-diagram.png', 'notes.txt']);
+      assert.ok(read('index.md').includes('![my diagram.png](my-diagram.png)'), read('index.md'));
+      assert.deepStrictEqual(results[0].attachments, ['my-diagram.png', 'logo.png', 'notes.txt', '..-escape.txt']);
+    });
+  });
+
+  await test('hashes are only recorded for attachments the page shows', async () => {
+    const { confluence, root } = withAttachments();
+    await withExport(confluence, root, async ({ cache }) => {
+      assert.deepStrictEqual(Object.keys(cache.getPageMapping('handbook/index.md').attachmentHashes).sort(), ['logo.png', 'my diagram.png']);
+    });
+  });
+
+  await test('publishing the export back uploads only renamed attachments and keeps the others', async () => {
+    const { confluence, root } = withAttachments();
+    await withExport(confluence, root, async ({ directory, target, cache, projectConfig }) => {
+      confluence.writes = [];
+      const publisher = new DirectoryPublisher(directory, new PagePublisher(confluence, cache, projectConfig), cache);
+      const results = await publisher.publish(target, { spaceKey: 'DOCS', parentPageId: '1' });
+
+      assert.deepStrictEqual(results.map(result => result.status), ['updated', 'updated', 'updated', 'updated', 'updated']);
+      assert.deepStrictEqual(confluence.writes.filter(write => write.action !== 'update'), [
+        { action: 'upload', pageId: '10', filename: 'my-diagram.png' },
+        { action: 'delete-attachment', pageId: '10', filename: 'my diagram.png' }
+      ]);
+      assert.deepStrictEqual(confluence.attachments.filter(attachment => attachment.pageId === '10').map(attachment => attachment.filename).sort(),
+        ['../escape.txt', 'logo.png', 'my-diagram.png', 'notes.txt']);
+    });
+  });
+}
+
+run('TreeExporter', [testLayout, testAttachments]);
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for skipping publishes that would not change the page
+ * (PagePublisher.updatePage), against an in-memory Confluence
+ *
+ * Tests:
+ * 1. When a republish writes a new version
+ * 2. Attachments
+ *
+ * IMPORTANT: Requires the server dependencies (see unit-test-helpers.js)
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { load, test, withTempDir, run, FakeConfluence, projectConfigStub } = require('./unit-test-helpers');
+
+const { PagePublisher } = load('src/services/page-publisher');
+const { MarkdownPageCache } = load('src/utils/cache');
+
+const MARKDOWN = '# Guide\n\nSome text.\n';
+
+// Publish the Markdown as docs/guide.md, with `files` written below docs/
+// first, then hand the pieces to fn
+async function withPublishedPage(fn, { markdown = MARKDOWN, files = {} } = {}) {
+  await withTempDir('confluence-unchanged-', async directory => {
+    fs.mkdirSync(path.join(directory, 'docs'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory, 'docs', name), content);
+    }
+
+    const confluence = new FakeConfluence();
+    const parent = confluence.addPage({ title: 'Docs' });
+    const cache = new MarkdownPageCache(path.join(directory, 'mapping.json'));
+    const publisher = new PagePublisher(confluence, cache, projectConfigStub(directory, { managedByLabel: '' }));
+
+    const { page } = await publisher.createPage({
+      spaceKey: 'DOCS',
+      title: 'Guide',
+      markdownContent: markdown,
+      markdownPath: 'docs/guide.md',
+      parentPageId: parent.id
+    });
+    confluence.writes = [];
+
+    const republish = (changes = {}) => publisher.updatePage({
+      pageId: page.id,
+      title: 'Guide',
+      markdownContent: markdown,
+      markdownPath: 'docs/guide.md',
+      parentPageId: parent.id,
+      ...changes
+    });
+
+    await fn({ confluence, directory, page, parent, republish });
+  });
+}
+
+async function testVersions() {
+  console.log('1️⃣  New versions');
+
+  await test('republishing the same Markdown writes nothing', async () => {
+    await withPublishedPage(async ({ confluence, republish }) => {
+      const result = await republish();
+      assert.strictEqual(result.unchanged, true);
+      assert.strictEqual(result.page.version.number, 1);
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+
+  await test('the mapping is found however the path is spelled', async () => {
+    await withPublishedPage(async ({ confluence, republish }) => {
+      const result = await republish({ markdownPath: './docs\\guide.md' });
+      assert.strictEqual(result.unchanged, true);
+      assert.deepStrictEqual(confluence.writes, []);
+    });
+  });
+
+  await test('changed content, title or parent is written', async () => {
+    await withPublishedPage(async ({ confluence, page, republish }) => {
+      const other = confluence.addPage({ title: 'Elsewhere' });
+
+      assert.strictEqual((await republish({ markdownContent: MARKDOWN + '\nMore.\n' })).unchanged, false);
+      assert.strictEqual((await republish({ title: 'Guide v2' })).unchanged, false);
+      assert.strictEqual((await republish({ title: 'Guide v2', parentPageId: other.id })).unchanged, false);
+      assert.strictEqual(confluence.pages.get(page.id).version, 4);
+    });
+  });
+
+  await test('a page edited in Confluence since the last publish is written', async () => {
+    await withPublishedPage(async ({ confluence, page, republish }) => {
+      confluence.pages.get(page.id).version++;
+      const result = await republish();
+      assert.strictEqual(result.unchanged, false);
+      assert.deepStrictEqual(confluence.writes.map(write => write.action), ['update']);
+    });
+  });
+
+  await test('force writes a new version anyway', async () => {
+    await withPublishedPage(async ({ confluence, republish }) => {
+      const result = await republish({ force: true });
+      assert.strictEqual(result.unchanged, false);
+      assert.deepStrictEqual(confluence.writes.map(write => write.action), ['update']);
+    });
+  });
+}
+
+async function testAttachments() {
+  console.log('2️⃣  Attachments');
+
+  await test('images are only uploaded again when they changed', async () => {
+    const markdown = '# Guide\n\n![Diagram](diagram.png)\n';
+    await withPublishedPage(async ({ confluence, directory, republish }) => {
+      assert.deepStrictEqual((await republish()).attachments, [{ filename: 'diagram.png', status: 'unchanged' }]);
+      assert.deepStrictEqual(confluence.writes, []);
+
+      fs.writeFileSync(path.join(directory, 'docs', 'diagram.png'), 'changed image');
+      const result = await republish();
+      assert.deepStrictEqual(result.attachments, [{ filename: 'diagram.png', status: 'updated' }]);
+      assert.strictEqual(result.unchanged, true);
+    }, { markdown, files: { 'diagram.png': 'image' } });
+  });
+}
+
+run('unchanged publishes', [testVersions, testAttachments]);
@@ -0,0 +1,226 @@
+/**
+ * Shared setup for the confluence-mcp unit tests
+ *
+ * The unit test scripts need no running server or Confluence instance. They
+ * load the TypeScript sources directly, using the ts-node that comes with
+ * the server's development dependencies.
+ *
+ * IMPORTANT: Requires the server dependencies:
+ *   cd confluence-mcp && npm install
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const SERVER_DIR = path.resolve(__dirname, '..', 'confluence-mcp');
+
+process.env.TS_NODE_PROJECT = path.join(SERVER_DIR, 'tsconfig.json');
+require(path.join(SERVER_DIR, 'node_modules', 'ts-node', 'register', 'transpile-only'));
+
+// Load a module of the server, e.g. load('src/utils/cql')
+function load(modulePath) {
+  return require(path.join(SERVER_DIR, modulePath));
+}
+
+const results = [];
+
+async function test(name, fn) {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`   ✅ ${name}`);
+  } catch (error) {
+    results.push({ name, passed: false });
+    console.log(`   ❌ ${name}`);
+    console.log(`      ${error.message.split('\n').join('\n      ')}`);
+  }
+}
+
+// Run fn with environment variables set, restoring the previous values afterwards
+async function withEnv(env, fn) {
+  const previous = {};
+  for (const [name, value] of Object.entries(env)) {
+    previous[name] = process.env[name];
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+}
+
+// Run fn in a fresh temporary directory that is removed afterwards
+async function withTempDir(prefix, fn) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  try {
+    return await fn(directory);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * In-memory stand-in for ConfluenceClient with the calls the publishing,
+ * sync, linking and export services make. Every write is logged in `writes`.
+ */
+class FakeConfluence {
+  constructor() {
+    this.pages = new Map();
+    this.attachments = [];
+    this.labels = new Map();
+    this.writes = [];
+    this.nextId = 1000;
+  }
+
+  addPage({ id = String(this.nextId++), title, spaceKey = 'DOCS', parentId, body = '', version = 1 }) {
+    const page = { id, title, spaceKey, parentId, body, version };
+    this.pages.set(id, page);
+    return page;
+  }
+
+  addAttachment(pageId, filename, data = Buffer.from(filename)) {
+    const attachment = { id: String(this.nextId++), pageId, filename, mediaType: 'application/octet-stream', fileSize: data.length, version: 1, downloadLink: `/download/${filename}`, data };
+    this.attachments.push(attachment);
+    return attachment;
+  }
+
+  details(page) {
+    const ancestors = [];
+    for (let parent = this.pages.get(page.parentId); parent; parent = this.pages.get(parent.parentId)) {
+      ancestors.unshift({ id: parent.id, title: parent.title });
+    }
+    return {
+      id: page.id,
+      title: page.title,
+      spaceKey: page.spaceKey,
+      version: { number: page.version, when: '2024-01-01T00:00:00.000Z', by: { displayName: 'Tester' } },
+      body: page.body,
+      ancestors
+    };
+  }
+
+  find(pageId) {
+    const page = this.pages.get(pageId);
+    if (!page) {
+      throw Object.assign(new Error(`Page ${pageId} not found`), { response: { status: 404 } });
+    }
+    return page;
+  }
+
+  async getPage(pageId) {
+    return this.details(this.find(pageId));
+  }
+
+  async getPageVersion(pageId) {
+    return this.details(this.find(pageId)).version;
+  }
+
+  async findPageByTitle(spaceKey, title) {
+    const page = [...this.pages.values()].find(page => page.spaceKey === spaceKey && page.title === title);
+    return page ? this.details(page) : null;
+  }
+
+  async createPage(spaceKey, title, content, parentPageId) {
+    const page = this.addPage({ title, spaceKey, parentId: parentPageId, body: content });
+    this.writes.push({ action: 'create', pageId: page.id, title });
+    return this.details(page);
+  }
+
+  async updatePage(pageId, title, content, version, parentPageId) {
+    const page = this.find(pageId);
+    Object.assign(page, { title, body: content, version: page.version + 1 }, parentPageId ? { parentId: parentPageId } : {});
+    this.writes.push({ action: 'update', pageId, title });
+    return this.details(page);
+  }
+
+  async *listChildPages(pageId) {
+    for (const page of this.pages.values()) {
+      if (page.parentId === pageId) {
+        yield this.details(page);
+      }
+    }
+  }
+
+  async getLabels(pageId) {
+    return [...(this.labels.get(pageId) || [])];
+  }
+
+  async addLabels(pageId, labels) {
+    this.labels.set(pageId, new Set([...(this.labels.get(pageId) || []), ...labels]));
+  }
+
+  async removeLabels(pageId, labels) {
+    const current = this.labels.get(pageId) || new Set();
+    labels.forEach(label => current.delete(label));
+  }
+
+  async *listAttachments(pageId) {
+    yield* this.attachments.filter(attachment => attachment.pageId === pageId);
+  }
+
+  async uploadOrUpdateAttachment(pageId, filename, data) {
+    const existing = this.attachments.find(attachment => attachment.pageId === pageId && attachment.filename === filename);
+    this.writes.push({ action: 'upload', pageId, filename });
+    if (existing) {
+      Object.assign(existing, { data, version: existing.version + 1 });
+      return { attachment: existing, action: 'updated' };
+    }
+    return { attachment: this.addAttachment(pageId, filename, data), action: 'created' };
+  }
+
+  async deleteAttachment(attachmentId) {
+    const attachment = this.attachments.find(attachment => attachment.id === attachmentId);
+    this.attachments = this.attachments.filter(other => other !== attachment);
+    this.writes.push({ action: 'delete-attachment', pageId: attachment.pageId, filename: attachment.filename });
+  }
+
+  async downloadAttachment(attachment) {
+    return attachment.data;
+  }
+}
+
+// Project config with the given settings, for services that take a ProjectConfigManager
+function projectConfigStub(baseDir, config = {}) {
+  return {
+    getConfig: () => config,
+    getBaseDir: () => baseDir
+  };
+}
+
+// Run the test sections in order, then print the summary and set the exit code
+function run(title, sections) {
+  (async () => {
+    console.log(`🧪 Testing ${title}...\n`);
+
+    for (const section of sections) {
+      await section();
+    }
+
+    const failed = results.filter(result => !result.passed);
+    console.log(`\n📊 ${results.length - failed.length}/${results.length} tests passed`);
+
+    if (failed.length > 0) {
+      console.log('❌ Some tests failed');
+      process.exit(1);
+    }
+    console.log('🎉 All unit tests passed!');
+  })().catch(error => {
+    console.error('❌ Test run failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { SERVER_DIR, load, test, withEnv, withTempDir, run, FakeConfluence, projectConfigStub };